@@ -1,22 +1,63 @@
 import { EventEmitter } from 'events';
-import { WhatsAppService, DatabaseService, EmbeddingsService, VectorService, RAGService, MCPService, createDefaultMCPConfig } from '../services';
-import { LLMProvider, BotMessage, BotResponse, MessageMiddleware, LLMMessage, ToolCall, ToolContext } from '../types';
+import { WhatsAppService, StreamingReply, DatabaseService, EmbeddingsService, VectorService, RAGService, MCPService, createDefaultMCPConfig, ContextManager, UserMemoryService, QuotaService, QuotaConfig, QuotaDecision, QuotaRole, QuotaSubject, TranscriptionService, TranscriptionConfig, createTranscriptionService, TTSService, TTSConfig, VoiceReplyMode, createTTSService, MemoryHistoryStore, createHistoryStore, HistoryStore, HistoryStoreType, HistoryEntry, ConversationSummary } from '../services';
+import { MCPServer } from '../services/mcp';
+import { LLMProvider, BotMessage, BotResponse, MessageMiddleware, MediaRejection, ResponseAttachment, LLMMessage, LLMResponse, LLMGenerationOptions, ToolCall, ToolCallResult, ToolContext, ToolFunction, ToolResult, ResponseMetrics } from '../types';
 import { createClient } from '@supabase/supabase-js';
 import NodeCache from 'node-cache';
+import { ContextFitRequest } from '../services/context-manager';
+import { UserFact } from '../services/user-memory';
 import { ToolManager } from '../tools';
+import { FallbackProvider, LLMProviderError } from '../providers';
+import { ProviderSelector } from '../utils/provider-selector';
+import { configManager } from '../utils/config';
+import { calculateCost, formatCost } from '../utils/pricing';
+import { CommandRouter, CommandContext } from './commands';
+import { GroupPolicies, GroupPolicyConfig } from './group-policy';
+import { memoryTools } from '../tools/builtin/memory';
 import { logger } from '../utils/logger';
 import { art } from '../utils/console-art';
 
+/** WhatsApp drops the typing state after ~25s; refresh a little earlier */
+const TYPING_REFRESH_MS = 20000;
+
+/**
+ * Messages kept verbatim per chat; older ones are folded into the summary.
+ * The context manager decides how many of these fit a prompt.
+ */
+const MAX_HISTORY_LENGTH = 50;
+
+/** Summaries run after the reply; one that takes longer than this is abandoned */
+const SUMMARY_TIMEOUT_MS = 60000;
+
+/** Senders whose database user id is remembered; the least recently seen is evicted */
+const MAX_CACHED_USER_IDS = 5000;
+
+interface ToolLoopResult {
+  response: LLMResponse;
+  toolCalls: ToolCall[];
+  steps: number;
+  attachments: ResponseAttachment[];
+}
+
 export interface ChatbotConfig {
   llmProvider: LLMProvider;
+  /** Model that answers messages; the provider's configured model when unset */
+  model?: string;
+  /** Cheaper model for background work such as summarizing old turns */
+  summaryModel?: string;
+  maxContextTokens?: number;
   systemPrompt?: string;
   maxTokens?: number;
   temperature?: number;
+  maxToolSteps?: number;
+  enableStreaming?: boolean;
+  streamThrottleMs?: number;
   enableLogging?: boolean;
-  rateLimit?: {
-    maxRequests: number;
-    windowMs: number;
-  };
+  admins?: string[];
+  groupPolicies?: GroupPolicyConfig;
+  quota?: QuotaConfig;
+  transcription?: TranscriptionConfig;
+  tts?: TTSConfig;
   supabase?: {
     url: string;
     anonKey: string;
@@ -26,12 +67,16 @@ export interface ChatbotConfig {
   enableVision?: boolean;
   enablePDF?: boolean;
   enableMCP?: boolean;
-  mcpServers?: Array<{
-    name: string;
-    command: string;
-    args: string[];
-    enabled: boolean;
-  }>;
+  enableUserMemory?: boolean;
+  mcpServers?: MCPServer[];
+  mcpOptions?: {
+    timeout?: number;
+    retryAttempts?: number;
+    retryDelayMs?: number;
+    namespaceTools?: boolean;
+  };
+  historyStore?: HistoryStoreType | 'auto';
+  historyDir?: string;
   cacheConfig?: {
     ttlSeconds?: number;
     maxKeys?: number;
@@ -42,8 +87,12 @@ export class Chatbot extends EventEmitter {
   private whatsapp: WhatsAppService;
   private llmProvider: LLMProvider;
   private config: ChatbotConfig;
-  private conversationHistory: Map<string, LLMMessage[]> = new Map();
-  private rateLimitMap: Map<string, number[]> = new Map();
+  private conversationHistory: Map<string, HistoryEntry[]> = new Map();
+  private conversationSummaries: Map<string, ConversationSummary> = new Map();
+  /** Chats with a summary being written in the background */
+  private pendingSummaries: Set<string> = new Set();
+  private historyStore: HistoryStore = new MemoryHistoryStore();
+  private contextManager: ContextManager;
   
   // New services
   private databaseService?: DatabaseService;
@@ -51,8 +100,19 @@ export class Chatbot extends EventEmitter {
   private vectorService?: VectorService;
   private ragService?: RAGService;
   private mcpService?: MCPService;
+  private userMemory?: UserMemoryService;
+  private quota?: QuotaService;
+  private transcription?: TranscriptionService;
+  private tts?: TTSService;
+  private voiceModes: Map<string, VoiceReplyMode> = new Map();
+  /** Messages being answered with a voice note, so their text is not streamed */
+  private voiceReplies: Set<string> = new Set();
+  /** Database user id per sender, kept out of the shared cache so it cannot fill it */
+  private userIds: Map<string, string> = new Map();
   private cache: NodeCache;
   private toolManager: ToolManager;
+  private commandRouter: CommandRouter;
+  private groupPolicies: GroupPolicies;
 
   constructor(whatsapp: WhatsAppService, config: ChatbotConfig) {
     super();
@@ -68,6 +128,16 @@ export class Chatbot extends EventEmitter {
 
     // Initialize ToolManager
     this.toolManager = new ToolManager();
+    this.contextManager = this.createContextManager();
+    this.groupPolicies = new GroupPolicies(config.groupPolicies || {
+      defaults: { replyMode: 'mention', keywords: [], historyScope: 'group' },
+      groups: {}
+    });
+    this.commandRouter = new CommandRouter({
+      isAdmin: message => this.isAdmin(message),
+      shouldHandle: message => this.groupPolicies.shouldRespond(message)
+    });
+    this.registerCommands();
 
     this.initializeServices();
     this.setupMiddleware();
@@ -99,11 +169,44 @@ export class Chatbot extends EventEmitter {
             this.embeddingsService,
             this.llmProvider
           );
+          this.ragService.setContextManager(this.contextManager);
+        }
+
+        if (this.config.enableUserMemory !== false) {
+          this.userMemory = new UserMemoryService(supabase, this.embeddingsService);
+        }
+      }
+
+      this.historyStore = this.createHistoryStore();
+      logger.info(`Conversation history store: ${this.historyStore.type}`);
+
+      if (this.config.quota) {
+        this.quota = new QuotaService(this.config.quota, this.databaseService);
+      }
+
+      if (this.config.transcription) {
+        try {
+          this.transcription = createTranscriptionService(this.config.transcription);
+        } catch (error) {
+          logger.warning(`Voice note transcription disabled: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      if (this.config.tts) {
+        try {
+          this.tts = createTTSService(this.config.tts);
+        } catch (error) {
+          logger.warning(`Voice replies disabled: ${error instanceof Error ? error.message : error}`);
         }
       }
 
       // Initialize ToolManager
       await this.toolManager.initialize();
+      if (this.userMemory) {
+        for (const tool of memoryTools) {
+          await this.toolManager.registerTool(tool);
+        }
+      }
 
       // Initialize MCP service if enabled
       if (this.config.enableMCP !== false) {
@@ -112,8 +215,11 @@ export class Chatbot extends EventEmitter {
           if (this.config.mcpServers) {
             mcpConfig.servers = this.config.mcpServers;
           }
+          Object.assign(mcpConfig, this.config.mcpOptions);
           this.mcpService = new MCPService(mcpConfig);
           await this.mcpService.initialize();
+          this.ragService?.setMCPService(this.mcpService);
+          this.reportToolCollisions();
         } catch (error) {
           console.error('❌ MCP service initialization error:', error);
         }
@@ -124,6 +230,10 @@ export class Chatbot extends EventEmitter {
         database: !!this.databaseService ? '✅ Connected' : '❌ Disabled',
         embeddings: !!this.embeddingsService ? '✅ Ready' : '❌ Disabled', 
         vector: !!this.vectorService ? '✅ Ready' : '❌ Disabled',
+        memory: !!this.userMemory ? '✅ Ready' : '❌ Disabled',
+        quota: !!this.quota ? (this.databaseService ? '✅ Persisted' : '✅ In-memory') : '❌ Disabled',
+        transcription: this.transcription ? `✅ ${this.transcription.backendName}` : '❌ Disabled',
+        'voice replies': this.tts ? `✅ ${this.tts.backendName}` : '❌ Disabled',
         rag: !!this.ragService ? '✅ Ready' : '❌ Disabled',
         mcp: !!this.mcpService ? '✅ Connected' : '❌ Disabled',
         'local tools': this.toolManager.getAvailableTools().length,
@@ -138,45 +248,338 @@ export class Chatbot extends EventEmitter {
     }
   }
 
+  private reportToolCollisions(): void {
+    if (!this.mcpService) return;
+
+    const localToolNames = this.toolManager.getAvailableTools().map(tool => tool.name);
+    const collisions = this.mcpService.getToolCollisions(localToolNames);
+    if (collisions.length === 0) return;
+
+    const namespaced = this.mcpService.isNamespacingTools();
+    logger.warning(`Tool name collisions detected (${collisions.length}):`);
+    collisions.forEach(collision => {
+      logger.warning(`${collision.name}: ${collision.sources.join(', ')}`, { indent: 2 });
+    });
+    logger.info(namespaced
+      ? 'MCP tools are namespaced as <server>__<tool>, so all of them remain available'
+      : 'MCP tool namespacing is disabled: local tools shadow MCP tools and the first server wins');
+  }
+
   private setupMiddleware(): void {
     const chatMiddleware: MessageMiddleware = async (message, next) => {
-      try {
-        if (!this.shouldProcessMessage(message)) {
-          return await next();
-        }
+      if (!this.shouldProcessMessage(message)) {
+        return await next();
+      }
 
-        // Rate limiting removed for unrestricted usage
+      const overLimit = await this.checkQuota(message);
+      if (overLimit) {
+        return overLimit;
+      }
 
-        // Check for tool-related queries
-        if (this.isToolQuery(message.content)) {
-          return await this.handleToolQuery(message);
-        }
-        
-        // Smart routing: Use tools for tool-relevant queries, RAG for knowledge queries
-        const response = await this.generateSmartResponse(message);
-        
-        if (response) {
-          this.updateConversationHistory(message.from, message.content, response.content);
-          this.logInteraction(message, response);
-
-          // Store interaction in database if available
-          if (this.databaseService) {
-            await this.storeInteraction(message, response).catch(err => 
-              console.error('Database storage error:', err)
-            );
+      return await this.withPresence(message.from, async () => {
+        try {
+          // Check for tool-related queries
+          if (this.isToolQuery(message.content)) {
+            return await this.handleToolQuery(message);
           }
+          
+          // Smart routing: Use tools for tool-relevant queries, RAG for knowledge queries
+          const response = await this.generateSmartResponse(message);
+          
+          if (response) {
+            await this.updateConversationHistory(this.getHistoryKey(message), message.content, response.content);
+            await this.recordQuotaUsage(message, response);
+            this.logInteraction(message, response);
+
+            // Store interaction in database if available
+            if (this.databaseService) {
+              await this.storeInteraction(message, response).catch(err => 
+                console.error('Database storage error:', err)
+              );
+            }
+          }
+
+          return response;
+        } catch (error) {
+          console.error('Error in chat middleware:', error);
+          return {
+            content: '🚨 Sorry, I encountered an error processing your message. Please try again.',
+          };
         }
+      });
+    };
+
+    // Group attachments the bot could never answer are not downloaded
+    this.whatsapp.setMediaFilter(message => this.groupPolicies.couldRespond(message));
+    // Unusable media is explained before any work is done on it
+    this.whatsapp.addMiddleware(this.mediaMiddleware());
+    // Voice notes become text first so commands and chat see the transcript
+    this.whatsapp.addMiddleware(this.transcriptionMiddleware());
+    this.whatsapp.addMiddleware(this.voiceReplyMiddleware());
+    // Commands are answered before anything reaches the LLM
+    this.whatsapp.addMiddleware(this.commandRouter.middleware());
+    this.whatsapp.addMiddleware(chatMiddleware);
+  }
+
+  /**
+   * Reply to media the bot cannot use, and give attachments, locations and
+   * contacts sent without text a content the rest of the pipeline can use.
+   * Voice notes and group messages not addressed to the bot pass untouched.
+   */
+  private mediaMiddleware(): MessageMiddleware {
+    return async (message, next) => {
+      if (TranscriptionService.isAudio(message.media) || (message.isGroup && !this.groupPolicies.shouldRespond(message))) {
+        return await next();
+      }
+
+      const rejection = message.rejectedMedia || this.getUnreadableMedia(message);
+      if (rejection) {
+        return { content: this.formatMediaRejection(rejection), quotedMessage: message.id };
+      }
+
+      if (!message.content.trim()) {
+        message.content = this.describeSharedContent(message);
+      }
+
+      return await next();
+    };
+  }
+
+  private getUnreadableMedia(message: BotMessage): MediaRejection | null {
+    const media = message.media;
+    if (!media || media.type === 'audio') {
+      return null;
+    }
+
+    let readable: boolean;
+    if (media.type === 'document') {
+      const { PDFService } = require('../services/pdf');
+      readable = this.config.enablePDF !== false && PDFService.isPDFFile(media);
+    } else {
+      const { VisionService } = require('../services/vision');
+      readable = this.config.enableVision !== false && VisionService.isVisualMedia(media);
+    }
+
+    return readable ? null : { type: media.type, reason: 'unsupported' };
+  }
+
+  private formatMediaRejection(rejection: MediaRejection): string {
+    const nouns: Record<string, string> = {
+      image: 'image',
+      sticker: 'sticker',
+      video: 'video',
+      document: 'document',
+      audio: 'audio message',
+      ptt: 'voice note',
+      poll_creation: 'poll',
+      order: 'order',
+      product: 'product',
+      payment: 'payment',
+      groups_v4_invite: 'group invite'
+    };
+    const noun = nouns[rejection.type] || 'attachment';
+    const megabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+    switch (rejection.reason) {
+      case 'too_large':
+        return `📎 That ${noun} is too large for me${rejection.sizeBytes && rejection.maxBytes ? ` (${megabytes(rejection.sizeBytes)}, the limit is ${megabytes(rejection.maxBytes)})` : ''}.`;
+      case 'download_failed':
+        return `📎 I couldn't download that ${noun}. Please try sending it again.`;
+      default:
+        return rejection.type === 'document'
+          ? "📎 Sorry, I can't read this kind of document. Please send a PDF or paste the text."
+          : `📎 Sorry, I can't handle ${noun}s yet. Please describe what you need in a text message.`;
+    }
+  }
+
+  /** Text standing in for a message that has no caption or body */
+  private describeSharedContent(message: BotMessage): string {
+    if (message.location) {
+      const { latitude, longitude, name, address, url } = message.location;
+      const place = [name, address].filter(Boolean).join(', ');
+      return `Shared location: ${place ? `${place} ` : ''}(${latitude}, ${longitude})${url ? ` ${url}` : ''}`;
+    }
+
+    if (message.contacts?.length) {
+      const contacts = message.contacts.map(contact =>
+        contact.phoneNumbers.length > 0 ? `${contact.name} (${contact.phoneNumbers.join(', ')})` : contact.name
+      );
+      return `Shared contact${contacts.length > 1 ? 's' : ''}: ${contacts.join('; ')}`;
+    }
+
+    switch (message.media?.type) {
+      case 'image':
+        return 'Please analyze this image and describe what you see.';
+      case 'sticker':
+        return '[Sticker]';
+      case 'document':
+        return `Please summarize this document${message.media.filename ? ` (${message.media.filename})` : ''}.`;
+      default:
+        return message.content;
+    }
+  }
+
+  /**
+   * Replace the content of voice notes and audio messages with their
+   * transcript. Replies that were not streamed get the transcript prepended
+   * here; streamed ones show it through the streaming reply prefix.
+   */
+  private transcriptionMiddleware(): MessageMiddleware {
+    return async (message, next) => {
+      if (!TranscriptionService.isAudio(message.media)) {
+        return await next();
+      }
+
+      if (message.isGroup && !this.groupPolicies.couldRespond(message)) {
+        return null;
+      }
+
+      if (!this.transcription) {
+        return message.isGroup ? null : {
+          content: "🎤 I can't listen to voice notes yet. Please send your message as text.",
+          quotedMessage: message.id
+        };
+      }
 
-        return response;
+      const transcription = this.transcription;
+      const media = message.media!;
+      let text: string;
+      try {
+        text = (await this.withPresence(message.from, () => transcription.transcribe(media))).text;
       } catch (error) {
-        console.error('Error in chat middleware:', error);
+        logger.warning(`Transcription failed for ${message.from}: ${error instanceof Error ? error.message : error}`);
+        return {
+          content: "🎤 Sorry, I couldn't transcribe that voice note. Please try again or send it as text.",
+          quotedMessage: message.id
+        };
+      }
+
+      if (!text) {
         return {
-          content: '🚨 Sorry, I encountered an error processing your message. Please try again.',
+          content: "🎤 I couldn't make out any words in that voice note.",
+          quotedMessage: message.id
         };
       }
+
+      // The audio stays attached so the reply can be spoken back
+      message.content = text;
+      message.transcribed = true;
+      message.hasMedia = false;
+
+      const response = await next();
+      if (response && !response.delivered) {
+        return { ...response, content: `${this.formatTranscriptNote(message)}${response.content}`.trimEnd() };
+      }
+      return response;
     };
+  }
 
-    this.whatsapp.addMiddleware(chatMiddleware);
+  /**
+   * Answer with a voice note instead of text when the sender's voice mode
+   * asks for it. Only generated replies are spoken; command output and
+   * canned replies (which carry no metrics) stay text.
+   */
+  private voiceReplyMiddleware(): MessageMiddleware {
+    return async (message, next) => {
+      if (!this.tts || !this.shouldProcessMessage(message) || !(await this.wantsVoiceReply(message))) {
+        return await next();
+      }
+
+      this.voiceReplies.add(message.id);
+      try {
+        const response = await next();
+        if (!response?.metrics || response.delivered) {
+          return response;
+        }
+        return await this.speakResponse(message, response);
+      } finally {
+        this.voiceReplies.delete(message.id);
+      }
+    };
+  }
+
+  private async wantsVoiceReply(message: BotMessage): Promise<boolean> {
+    const mode = await this.getVoiceMode(message);
+    return mode === 'always' || (mode === 'auto' && message.media?.type === 'audio');
+  }
+
+  private async speakResponse(message: BotMessage, response: BotResponse): Promise<BotResponse> {
+    const tts = this.tts!;
+
+    // Tool and source footers are for reading, not listening
+    const text = TTSService.toSpeechText(
+      response.content.split('\n').filter(line => !/^\s*(🔧|📚)/u.test(line)).join('\n')
+    );
+    if (!text) {
+      return response;
+    }
+
+    try {
+      await this.whatsapp.sendRecording(message.from);
+      const voiceNote = await tts.synthesize(text);
+      return { ...response, content: '', attachments: [voiceNote, ...(response.attachments || [])] };
+    } catch (error) {
+      logger.warning(`Answering in text, voice reply failed: ${error instanceof Error ? error.message : error}`);
+      return response;
+    } finally {
+      await this.whatsapp.clearChatState(message.from);
+    }
+  }
+
+  /** The sender's voice reply mode, remembered in the user's metadata when Supabase is available */
+  private async getVoiceMode(message: BotMessage): Promise<VoiceReplyMode> {
+    const sender = message.author || message.from;
+    const cached = this.voiceModes.get(sender);
+    if (cached) {
+      return cached;
+    }
+
+    let mode = this.tts?.defaultMode || 'off';
+    try {
+      const userId = await this.getUserId(message);
+      const stored = userId ? (await this.databaseService!.getUserMetadata(userId)).voice_replies : undefined;
+      if (stored === 'auto' || stored === 'always' || stored === 'off') {
+        mode = stored;
+      }
+    } catch (error) {
+      logger.warning(`Could not load voice preference for ${sender}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    this.voiceModes.set(sender, mode);
+    return mode;
+  }
+
+  private async setVoiceMode(message: BotMessage, mode: VoiceReplyMode): Promise<void> {
+    this.voiceModes.set(message.author || message.from, mode);
+
+    const userId = await this.getUserId(message);
+    if (userId) {
+      await this.databaseService!.updateUserMetadata(userId, { voice_replies: mode });
+    }
+  }
+
+  /** Shown above replies to voice notes so the sender can see what was heard */
+  private formatTranscriptNote(message: BotMessage): string {
+    if (!message.transcribed) {
+      return '';
+    }
+
+    const transcript = message.content.length > 200 ? `${message.content.substring(0, 200)}…` : message.content;
+    return `🎤 _"${transcript}"_\n\n`;
+  }
+
+  /**
+   * Mark the chat as read and show "typing..." while work runs.
+   */
+  private async withPresence<T>(chatId: string, work: () => Promise<T>): Promise<T> {
+    await this.whatsapp.markChatSeen(chatId);
+    await this.whatsapp.sendTyping(chatId);
+
+    try {
+      return await work();
+    } finally {
+      await this.whatsapp.clearChatState(chatId);
+    }
   }
 
   private setupEventHandlers(): void {
@@ -191,153 +594,402 @@ export class Chatbot extends EventEmitter {
     });
   }
 
-  private shouldProcessMessage(message: BotMessage): boolean {
-    if (message.content.trim().length === 0) {
-      return false;
+  /**
+   * The sender, plus the group for group messages, each with their own limits.
+   */
+  private getQuotaSubjects(message: BotMessage): QuotaSubject[] {
+    const role: QuotaRole = this.isAdmin(message) ? 'admin' : 'user';
+    return [
+      { id: message.author || message.from, kind: 'user', role },
+      ...(message.isGroup ? [{ id: message.from, kind: 'group' as const, role }] : [])
+    ];
+  }
+
+  /**
+   * Count the request against the sender's quotas; returns the reply to send
+   * instead when a limit has been reached.
+   */
+  private async checkQuota(message: BotMessage): Promise<BotResponse | null> {
+    if (!this.quota) {
+      return null;
     }
 
-    if (message.content.startsWith('/')) {
+    const decision = await this.quota.consume(this.getQuotaSubjects(message));
+    if (decision.allowed) {
+      return null;
+    }
+
+    logger.warning(`Quota reached for ${decision.subject?.id} (${decision.reason})`);
+    return { content: this.formatQuotaReply(decision), quotedMessage: message.id };
+  }
+
+  private async recordQuotaUsage(message: BotMessage, response: BotResponse): Promise<void> {
+    const tokens = response.metrics?.usage?.totalTokens;
+    if (this.quota && tokens) {
+      await this.quota.recordTokens(this.getQuotaSubjects(message), tokens);
+    }
+  }
+
+  private formatQuotaReply(decision: QuotaDecision): string {
+    const wait = this.formatDuration(decision.retryAfterMs || 0);
+    const isGroup = decision.subject?.kind === 'group';
+
+    if (decision.reason === 'tokens') {
+      return isGroup
+        ? `📊 This group has used its daily allowance of ${decision.limit?.toLocaleString()} tokens. It resets in ${wait}.`
+        : `📊 You've used your daily allowance of ${decision.limit?.toLocaleString()} tokens. It resets in ${wait} - see you then!`;
+    }
+
+    return isGroup
+      ? `⏳ This group is sending messages faster than I can keep up with (${decision.limit} per window). Please try again in ${wait}.`
+      : `⏳ You're sending messages a bit fast. Please try again in ${wait}.`;
+  }
+
+  private formatDuration(ms: number): string {
+    const seconds = Math.max(1, Math.ceil(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.ceil(seconds / 60);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  /**
+   * Admins are matched on the sender's number, so both "491701234567" and
+   * "491701234567@c.us" work in the allowlist.
+   */
+  private isAdmin(message: BotMessage): boolean {
+    const admins = this.config.admins || [];
+    if (admins.length === 0) {
       return false;
     }
 
-    return true;
+    const number = (id: string) => id.split('@')[0]!.replace(/\D/g, '');
+    const sender = number(message.author || message.from);
+    return admins.some(admin => number(admin) === sender);
   }
 
-  private isRateLimited(userId: string): boolean {
-    if (!this.config.rateLimit) return false;
+  private shouldProcessMessage(message: BotMessage): boolean {
+    if (message.content.trim().length === 0) {
+      return false;
+    }
 
-    const now = Date.now();
-    const userRequests = this.rateLimitMap.get(userId) || [];
-    
-    const validRequests = userRequests.filter(
-      timestamp => now - timestamp < this.config.rateLimit!.windowMs
-    );
+    if (message.content.startsWith('/')) {
+      return false;
+    }
 
-    if (validRequests.length >= this.config.rateLimit.maxRequests) {
-      return true;
+    if (!this.groupPolicies.shouldRespond(message)) {
+      return false;
     }
 
-    validRequests.push(now);
-    this.rateLimitMap.set(userId, validRequests);
-    return false;
+    return true;
   }
 
-  private async generateResponse(message: BotMessage): Promise<BotResponse | null> {
+  private async generateResponse(message: BotMessage, inputMessages?: LLMMessage[]): Promise<BotResponse | null> {
+    const stream = this.createStreamingReply(message);
+    const startTime = Date.now();
+
     try {
-      const conversation = this.getConversationHistory(message.from);
-      const messages: LLMMessage[] = [
-        ...conversation,
-        {
-          role: 'user',
-          content: await this.prepareMessageContent(message)
-        }
-      ];
+      const currentMessages: LLMMessage[] = inputMessages || [{
+        role: 'user',
+        content: await this.prepareMessageContent(message)
+      }];
 
-      const localTools = this.toolManager.getAvailableTools();
-      const mcpTools = this.mcpService ? this.mcpService.getAvailableTools() : [];
+      const { localTools, mcpTools } = this.getToolsFor(message);
       const availableTools = [...localTools, ...mcpTools];
       
       logger.tool(`Available tools: ${availableTools.length} total (${localTools.length} local, ${mcpTools.length} MCP)`);
       logger.debug(`Tool names: ${availableTools.map(t => t.name).join(', ')}`);
       
       const options: any = {
-        maxTokens: this.config.maxTokens || 1000,
-        temperature: this.config.temperature || 0.7,
+        ...this.getGenerationSettings(),
         tools: availableTools
       };
 
       // Always use dynamic system prompt generation
-      const dynamicPrompt = this.generateDynamicSystemPrompt(availableTools);
-      options.systemPrompt = dynamicPrompt;
+      const dynamicPrompt = this.generateDynamicSystemPrompt(availableTools, await this.getRelevantFacts(message), message);
       logger.provider(`Using dynamic system prompt with ${availableTools.length} tools`);
       logger.debug(`System prompt preview: ${dynamicPrompt.substring(0, 200)}...`);
 
-      let llmResponse = await this.llmProvider.generateResponse(messages, options);
-
-      logger.provider(`LLM response received with ${llmResponse.toolCalls ? llmResponse.toolCalls.length : 0} tool calls`);
-      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        const toolNames = llmResponse.toolCalls.map(tc => tc.name);
-        logger.tool(`Tool calls detected: ${toolNames.join(', ')}`);
-      }
-
-      // Handle tool calls if present
-      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        const toolResults = await this.executeToolCalls(llmResponse.toolCalls, message);
-        
-        // Add tool results to conversation and get final response
-        const updatedMessages = [
-          ...messages,
-          {
-            role: 'assistant' as const,
-            content: llmResponse.content || 'I\'ll help you with that.'
-          },
-          ...toolResults.map(result => ({
-            role: 'user' as const,
-            content: `Tool result: ${JSON.stringify((result as any)?.result || 'Error')}`
-          }))
-        ];
+      const context = await this.buildConversationContext(this.getHistoryKey(message), dynamicPrompt, {
+        tools: availableTools,
+        currentMessages
+      });
+      options.systemPrompt = context.systemPrompt;
 
-        // Get final response from LLM with tool results
-        llmResponse = await this.llmProvider.generateResponse(updatedMessages, {
-          ...options,
-          tools: [] // Don't use tools in the follow-up call
-        });
-        
-        logger.tool(`Final response after tool execution: ${llmResponse.content.substring(0, 80)}...`);
-      }
+      const { response: llmResponse, toolCalls, steps, attachments } = await this.runWithContextRecovery(context.history, currentMessages, options, message, stream);
 
       // Add tool usage indicator if tools were used
       let finalContent = llmResponse.content;
-      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        const toolNames = llmResponse.toolCalls.map(tc => tc.name);
-        const uniqueTools = [...new Set(toolNames)];
-        const toolCounts = toolNames.reduce((acc, name) => {
-          acc[name] = (acc[name] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
-        
-        const toolSummary = uniqueTools.map(name => 
-          (toolCounts[name] || 0) > 1 ? `${name} (${toolCounts[name]}x)` : name
-        ).join(', ');
-        
-        const executionMode = llmResponse.toolCalls.length > 1 ? 'parallel' : 'single';
-        finalContent = `🔧 *Used tools (${executionMode}): ${toolSummary}*\n\n${finalContent}`;
+      if (toolCalls.length > 0) {
+        finalContent = `${this.formatToolUsage(toolCalls, steps)}\n\n${finalContent}`;
       }
       
-      return {
+      return await this.completeStream(stream, {
         content: finalContent,
-        quotedMessage: message.id
-      };
+        quotedMessage: message.id,
+        metrics: this.buildMetrics(llmResponse, steps, startTime),
+        ...(attachments.length > 0 && { attachments })
+      });
 
     } catch (error) {
       console.error('Error generating LLM response:', error);
-      return {
-        content: '🤔 I need a moment to think. Please try again.',
-      };
+      return await this.completeStream(stream, {
+        content: this.formatLLMError(error, '🤔 I need a moment to think. Please try again.'),
+      });
+    }
+  }
+
+  /**
+   * Run the tool loop, retrying once without the conversation history when
+   * the provider says the prompt does not fit its context window; our token
+   * counts are estimates. The summary in the system prompt is kept.
+   */
+  private async runWithContextRecovery(
+    history: LLMMessage[],
+    currentMessages: LLMMessage[],
+    options: LLMGenerationOptions,
+    message: BotMessage,
+    stream: StreamingReply | null
+  ): Promise<ToolLoopResult> {
+    try {
+      return await this.runToolLoop([...history, ...currentMessages], options, message, stream);
+    } catch (error) {
+      if (!(error instanceof LLMProviderError && error.kind === 'context_length_exceeded') || history.length === 0) {
+        throw error;
+      }
+
+      logger.warning(`Prompt exceeded the context window, retrying without ${history.length} history messages`);
+      return await this.runToolLoop(currentMessages, options, message, stream);
+    }
+  }
+
+  /**
+   * Reply for a failed LLM request that tells the user what went wrong, or
+   * the generic reply when the cause is unknown.
+   */
+  private formatLLMError(error: unknown, genericReply: string): string {
+    if (!(error instanceof LLMProviderError)) {
+      return genericReply;
+    }
+
+    switch (error.kind) {
+      case 'rate_limited':
+        return `⏳ I'm getting more requests than I can handle right now. Please try again in ${error.retryAfterMs ? this.formatDuration(error.retryAfterMs) : 'a minute'}.`;
+      case 'overloaded':
+        return '🔥 My AI service is overloaded at the moment. Please try again in a minute.';
+      case 'timeout':
+        return '⌛ That took too long to answer. Please try again, or ask in a simpler way.';
+      case 'network':
+        return '📡 I couldn\'t reach my AI service. Please try again in a moment.';
+      case 'auth':
+        logger.error(`${error.provider} rejected our credentials: ${error.message}`);
+        return '🔑 I can\'t reach my AI service because of a configuration problem. Please let the bot admin know.';
+      case 'context_length_exceeded':
+        return '📏 That message is too long for me to process. Please shorten it, or send /reset to start a fresh conversation.';
+      case 'content_filtered':
+        return '🚫 Sorry, I can\'t help with that request.';
+      default:
+        return genericReply;
+    }
+  }
+
+  /**
+   * Agentic loop: keep executing requested tools and feeding their results
+   * back as tool_result blocks until the model answers without calling a
+   * tool or the step budget is spent (the final call then disables tools).
+   */
+  private async runToolLoop(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions,
+    message: BotMessage,
+    stream: StreamingReply | null = null
+  ): Promise<ToolLoopResult> {
+    const maxSteps = this.config.maxToolSteps ?? 5;
+    const conversation = [...messages];
+    const executedCalls: ToolCall[] = [];
+    const attachments: ResponseAttachment[] = [];
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    // Resolved on the first tool step and shared by the ones after it
+    let toolContext: ToolContext | null = null;
+    let steps = 0;
+
+    while (true) {
+      const budgetSpent = steps >= maxSteps;
+      const stepOptions: LLMGenerationOptions = budgetSpent && options.tools?.length
+        ? { ...options, toolChoice: 'none' }
+        : options;
+      const response = stream
+        ? await this.llmProvider.streamResponse(conversation, stepOptions, (_delta, text) => stream.update(text))
+        : await this.llmProvider.generateResponse(conversation, stepOptions);
+
+      // Every step is billed, so report the total rather than the last call
+      if (response.usage) {
+        usage.inputTokens += response.usage.inputTokens;
+        usage.outputTokens += response.usage.outputTokens;
+        usage.totalTokens += response.usage.totalTokens;
+        response.usage = { ...usage };
+      }
+
+      const toolCalls = response.toolCalls || [];
+      logger.provider(`LLM response received with ${toolCalls.length} tool calls (step ${steps + 1})`);
+
+      if (toolCalls.length === 0 || budgetSpent) {
+        if (toolCalls.length > 0) {
+          logger.warning(`Tool step budget (${maxSteps}) exhausted, ignoring ${toolCalls.length} further tool calls`);
+        }
+        if (!response.content.trim() && executedCalls.length > 0) {
+          response.content = 'I ran the requested tools but could not put together a final answer. Please try rephrasing your request.';
+        }
+        return { response, toolCalls: executedCalls, steps, attachments };
+      }
+
+      steps++;
+      logger.tool(`Tool calls detected (step ${steps}/${maxSteps}): ${toolCalls.map(tc => tc.name).join(', ')}`);
+
+      toolContext ??= await this.createToolContext(message);
+      const toolResults = await this.executeToolCalls(toolCalls, message, toolContext);
+      executedCalls.push(...toolCalls);
+      toolResults.forEach(({ result }) => attachments.push(...(result.attachments || [])));
+
+      conversation.push(
+        {
+          role: 'assistant',
+          content: [
+            ...(response.content ? [{ type: 'text' as const, text: response.content }] : []),
+            ...toolCalls.map(toolCall => ({
+              type: 'tool_use' as const,
+              id: toolCall.id,
+              name: toolCall.name,
+              input: toolCall.parameters ?? {}
+            }))
+          ]
+        },
+        {
+          role: 'user',
+          content: toolCalls.map(toolCall => {
+            const result = toolResults.find(r => r.toolCallId === toolCall.id)?.result;
+            return {
+              type: 'tool_result' as const,
+              tool_use_id: toolCall.id,
+              content: this.serializeToolResult(result || { success: false, error: 'No result' }),
+              ...(!result?.success && { is_error: true })
+            };
+          })
+        }
+      );
+    }
+  }
+
+  /**
+   * Tool result as shown to the model. Attached files go to the user, so the
+   * model only sees what was attached.
+   */
+  private serializeToolResult(result: ToolResult): string {
+    const { attachments, ...rest } = result;
+    if (!attachments?.length) {
+      return JSON.stringify(rest);
+    }
+
+    return JSON.stringify({
+      ...rest,
+      attachments: attachments.map(attachment => ({
+        type: attachment.type,
+        ...(attachment.filename && { filename: attachment.filename }),
+        mimetype: attachment.mimetype,
+        bytes: attachment.data.length
+      })),
+      note: 'These files are sent to the user together with your reply'
+    });
+  }
+
+  /**
+   * Start a progressively edited reply for this message, or null when
+   * streaming is disabled.
+   */
+  private createStreamingReply(message: BotMessage): StreamingReply | null {
+    if (this.config.enableStreaming === false || this.voiceReplies.has(message.id)) {
+      return null;
+    }
+
+    return this.whatsapp.createStreamingReply(message.id, {
+      throttleMs: this.config.streamThrottleMs ?? 1000,
+      prefix: this.formatTranscriptNote(message)
+    });
+  }
+
+  /**
+   * If part of the answer was already streamed, replace it with the final
+   * content and mark the response as delivered.
+   */
+  private async completeStream(stream: StreamingReply | null, response: BotResponse): Promise<BotResponse> {
+    if (!stream?.hasStarted()) {
+      return response;
     }
+
+    await stream.finish(response.content);
+    return { ...response, delivered: true };
+  }
+
+  private buildMetrics(response: LLMResponse, toolRounds: number, startTime: number): ResponseMetrics {
+    const model = response.model || this.config.model;
+    return {
+      provider: response.provider || this.llmProvider.name,
+      ...(model && { model }),
+      ...(response.usage && { usage: response.usage }),
+      responseTimeMs: Date.now() - startTime,
+      toolRounds
+    };
+  }
+
+  private formatToolUsage(toolCalls: ToolCall[], steps: number): string {
+    const toolNames = toolCalls.map(tc => tc.name);
+    const uniqueTools = [...new Set(toolNames)];
+    const toolCounts = toolNames.reduce((acc, name) => {
+      acc[name] = (acc[name] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    const toolSummary = uniqueTools.map(name =>
+      (toolCounts[name] || 0) > 1 ? `${name} (${toolCounts[name]}x)` : name
+    ).join(', ');
+
+    const executionMode = steps > 1 ? `${steps} steps` : toolCalls.length > 1 ? 'parallel' : 'single';
+    return `🔧 *Used tools (${executionMode}): ${toolSummary}*`;
   }
 
-  private async executeToolCalls(toolCalls: Array<{ id: string; name: string; parameters: any }>, message: BotMessage) {
+  /**
+   * Services, user and conversation available to tools while answering a
+   * message. The user is the sender (the author in groups), so per-person
+   * tools like memory never act on the group; the conversation is the chat.
+   * Both are looked up, not saved; the message is stored after the reply.
+   */
+  private async createToolContext(message: BotMessage): Promise<ToolContext> {
     const toolContext: ToolContext = {
       message,
       services: {
         ...(this.databaseService && { database: this.databaseService }),
         ...(this.ragService && { rag: this.ragService }),
+        ...(this.userMemory && { memory: this.userMemory }),
         cache: this.cache
       }
     };
 
-    // Get user and conversation data if database is available
     if (this.databaseService) {
       try {
-        const { user, conversation } = await this.databaseService.saveUserMessage(message);
-        toolContext.user = user;
-        toolContext.conversation = conversation;
+        const chat = await this.databaseService.getOrCreateUser(message.from, message.senderName);
+        toolContext.conversation = await this.databaseService.getOrCreateConversation(chat.id, message.from, message.isGroup, message.groupName);
+        toolContext.user = message.author
+          ? await this.databaseService.getOrCreateUser(message.author, message.senderName)
+          : chat;
       } catch (error) {
         console.warn('Could not get user/conversation for tool context:', error);
       }
     }
 
+    return toolContext;
+  }
+
+  private async executeToolCalls(toolCalls: ToolCall[], message: BotMessage, toolContext: ToolContext): Promise<ToolCallResult[]> {
     // Execute all tools in parallel
     const toolNames = toolCalls.map(tc => tc.name);
     const isParallel = toolCalls.length > 1;
@@ -346,26 +998,47 @@ export class Chatbot extends EventEmitter {
     logger.toolSuccess(`Executing ${toolCalls.length} tools in ${mode} mode: ${toolNames.join(', ')}`);
     const startTime = Date.now();
 
+    // Typing state expires on its own, so keep refreshing it while tools run
+    await this.whatsapp.sendTyping(message.from);
+    const typingRefresh = setInterval(() => {
+      this.whatsapp.sendTyping(message.from);
+    }, TYPING_REFRESH_MS);
+
     const toolPromises = toolCalls.map(async (toolCall) => {
       const toolStartTime = Date.now();
       
-      // Create a timeout promise
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => {
-          reject(new Error(`Tool ${toolCall.name} timed out after 30 seconds`));
+      // Create a timeout promise that resolves to a failed result
+      let timeoutHandle: NodeJS.Timeout | undefined;
+      const timeoutPromise = new Promise<ToolCallResult>((resolve) => {
+        timeoutHandle = setTimeout(() => {
+          logger.error(`${art.toolBadge(toolCall.name)} timed out after 30 seconds`);
+          resolve({
+            toolCallId: toolCall.id,
+            result: {
+              success: false,
+              error: `Tool ${toolCall.name} timed out after 30 seconds`
+            }
+          });
         }, 30000); // 30 second timeout
       });
       
-      const executionPromise = (async () => {
+      const executionPromise = (async (): Promise<ToolCallResult> => {
         try {
-          let result;
+          let result: ToolCallResult;
+
+          if (!this.groupPolicies.isToolAllowed(message, toolCall.name)) {
+            return {
+              toolCallId: toolCall.id,
+              result: { success: false, error: `Tool ${toolCall.name} is not available in this group` }
+            };
+          }
           
-          // Check if it's a local tool or MCP tool
+          // Check if it's a local tool or MCP tool (local tools shadow un-namespaced MCP tools)
           const localTool = this.toolManager.getTool(toolCall.name);
           if (localTool) {
             // Execute local tool
             result = await this.toolManager.executeTool(toolCall, toolContext);
-          } else if (this.mcpService) {
+          } else if (this.mcpService?.hasTool(toolCall.name)) {
             // Execute MCP tool
             const mcpResult = await this.mcpService.executeTool(toolCall.name, toolCall.parameters, toolContext);
             result = {
@@ -402,14 +1075,14 @@ export class Chatbot extends EventEmitter {
       })();
       
       // Race between execution and timeout
-      return Promise.race([executionPromise, timeoutPromise]);
+      return Promise.race([executionPromise, timeoutPromise]).finally(() => clearTimeout(timeoutHandle));
     });
 
     // Wait for all tools to complete
-    const results = await Promise.all(toolPromises);
+    const results = await Promise.all(toolPromises).finally(() => clearInterval(typingRefresh));
     const totalExecutionTime = Date.now() - startTime;
     
-    const successCount = results.filter(r => (r as any)?.result?.success).length;
+    const successCount = results.filter(r => r.result.success).length;
     const executionMode = isParallel ? 'parallel' : 'single';
     
     logger.toolSuccess(`Tool execution complete: ${successCount}/${toolCalls.length} succeeded in ${totalExecutionTime}ms (${executionMode})`);
@@ -422,6 +1095,8 @@ export class Chatbot extends EventEmitter {
   }
 
   private async generateRAGResponse(message: BotMessage): Promise<BotResponse | null> {
+    const startTime = Date.now();
+
     try {
       if (!this.ragService) {
         return await this.generateResponse(message);
@@ -433,11 +1108,12 @@ export class Chatbot extends EventEmitter {
         return await this.generateHybridResponse(message);
       }
 
-      const conversation = this.getConversationHistory(message.from);
+      const conversation = await this.getConversationHistory(this.getHistoryKey(message));
       const result = await this.ragService.handleMultimodalMessage(
         message,
-        message.from,
-        conversation
+        message.author || message.from,
+        conversation,
+        this.getGenerationSettings()
       );
 
       let responseContent = result.response;
@@ -449,71 +1125,55 @@ export class Chatbot extends EventEmitter {
 
       return {
         content: responseContent,
-        quotedMessage: message.id
+        quotedMessage: message.id,
+        metrics: this.buildMetrics(
+          { content: result.response, ...(result.usage && { usage: result.usage }), ...(result.model && { model: result.model }) },
+          0,
+          startTime
+        )
       };
 
     } catch (error) {
       console.error('Error generating RAG response:', error);
       return {
-        content: '🤔 I encountered an issue processing your request. Please try again.',
+        content: this.formatLLMError(error, '🤔 I encountered an issue processing your request. Please try again.'),
       };
     }
   }
 
   private async generateHybridResponse(message: BotMessage): Promise<BotResponse | null> {
+    const stream = this.createStreamingReply(message);
+    const startTime = Date.now();
+
     try {
       logger.rag(`Generating hybrid response (RAG + Tools) for: ${message.content.substring(0, 50)}...`);
       
-      const conversation = this.getConversationHistory(message.from);
-      const messages: LLMMessage[] = [
-        ...conversation,
-        {
-          role: 'user',
-          content: await this.prepareMessageContent(message)
-        }
-      ];
+      const conversation = await this.getConversationHistory(this.getHistoryKey(message));
+      const currentMessages: LLMMessage[] = [{
+        role: 'user',
+        content: await this.prepareMessageContent(message)
+      }];
 
-      const localTools = this.toolManager.getAvailableTools();
-      const mcpTools = this.mcpService ? this.mcpService.getAvailableTools() : [];
+      const { localTools, mcpTools } = this.getToolsFor(message);
       const availableTools = [...localTools, ...mcpTools];
       
       logger.tool(`Hybrid mode - Available tools: ${availableTools.length}`);
       
       const options: any = {
-        maxTokens: this.config.maxTokens || 1000,
-        temperature: this.config.temperature || 0.7,
+        ...this.getGenerationSettings(),
         tools: availableTools
       };
 
       // Use dynamic system prompt with both RAG and tool instructions
-      const dynamicPrompt = this.generateDynamicSystemPrompt(availableTools);
-      options.systemPrompt = dynamicPrompt;
-
-      let llmResponse = await this.llmProvider.generateResponse(messages, options);
+      const dynamicPrompt = this.generateDynamicSystemPrompt(availableTools, await this.getRelevantFacts(message), message);
 
-      // Handle tool calls if present
-      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        const toolResults = await this.executeToolCalls(llmResponse.toolCalls, message);
-        
-        // Add tool results to conversation and get final response
-        const updatedMessages = [
-          ...messages,
-          {
-            role: 'assistant' as const,
-            content: llmResponse.content || 'I\'ll help you with that.'
-          },
-          ...toolResults.map(result => ({
-            role: 'user' as const,
-            content: `Tool result: ${JSON.stringify((result as any)?.result || 'Error')}`
-          }))
-        ];
+      const context = await this.buildConversationContext(this.getHistoryKey(message), dynamicPrompt, {
+        tools: availableTools,
+        currentMessages
+      });
+      options.systemPrompt = context.systemPrompt;
 
-        // Get final response from LLM with tool results
-        llmResponse = await this.llmProvider.generateResponse(updatedMessages, {
-          ...options,
-          tools: [] // Don't use tools in the follow-up call
-        });
-      }
+      const { response: llmResponse, toolCalls, steps, attachments } = await this.runWithContextRecovery(context.history, currentMessages, options, message, stream);
 
       // Try to enhance with RAG context if available
       let finalContent = llmResponse.content;
@@ -522,8 +1182,9 @@ export class Chatbot extends EventEmitter {
         if (this.ragService && !this.needsToolSupport(message.content)) {
           const ragResult = await this.ragService.handleMultimodalMessage(
             message,
-            message.from,
-            conversation
+            message.author || message.from,
+            conversation,
+            this.getGenerationSettings()
           );
           
           if (ragResult.ragContext && ragResult.ragContext.relevantContent.length > 0) {
@@ -535,32 +1196,22 @@ export class Chatbot extends EventEmitter {
       }
 
       // Add tool usage indicator if tools were used
-      if (llmResponse.toolCalls && llmResponse.toolCalls.length > 0) {
-        const toolNames = llmResponse.toolCalls.map(tc => tc.name);
-        const uniqueTools = [...new Set(toolNames)];
-        const toolCounts = toolNames.reduce((acc, name) => {
-          acc[name] = (acc[name] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>);
-        
-        const toolSummary = uniqueTools.map(name => 
-          (toolCounts[name] || 0) > 1 ? `${name} (${toolCounts[name]}x)` : name
-        ).join(', ');
-        
-        const executionMode = llmResponse.toolCalls.length > 1 ? 'parallel' : 'single';
-        finalContent = `🔧 *Used tools (${executionMode}): ${toolSummary}*\n\n${finalContent}`;
+      if (toolCalls.length > 0) {
+        finalContent = `${this.formatToolUsage(toolCalls, steps)}\n\n${finalContent}`;
       }
       
-      return {
+      return await this.completeStream(stream, {
         content: finalContent,
-        quotedMessage: message.id
-      };
+        quotedMessage: message.id,
+        metrics: this.buildMetrics(llmResponse, steps, startTime),
+        ...(attachments.length > 0 && { attachments })
+      });
 
     } catch (error) {
       console.error('Error generating hybrid response:', error);
-      return {
-        content: '🤔 I encountered an issue processing your request. Please try again.',
-      };
+      return await this.completeStream(stream, {
+        content: this.formatLLMError(error, '🤔 I encountered an issue processing your request. Please try again.'),
+      });
     }
   }
 
@@ -569,7 +1220,7 @@ export class Chatbot extends EventEmitter {
     if (message.hasMedia && message.media && this.config.enableVision !== false) {
       const { VisionService } = require('../services/vision');
       
-      if (message.media.type === 'image' && VisionService.isImageSupported(message.media.mimetype || '')) {
+      if (VisionService.isVisualMedia(message.media)) {
         return VisionService.createMultimodalContent(message.content, message.media);
       }
     }
@@ -605,41 +1256,211 @@ export class Chatbot extends EventEmitter {
       }
     }
 
-    return message.content;
+    return message.content;
+  }
+
+  private async storeInteraction(message: BotMessage, response: BotResponse): Promise<void> {
+    if (!this.databaseService) return;
+
+    try {
+      // Store user message
+      const { user, conversation, message: storedMessage } = await this.databaseService.saveUserMessage(message);
+
+      // Store bot response
+      const metrics = response.metrics;
+      await this.databaseService.saveBotResponse(
+        conversation.id,
+        `${message.id}_response`,
+        response.content,
+        { content: response.content, ...(metrics?.usage && { usage: metrics.usage }) },
+        metrics?.provider || this.llmProvider.name,
+        metrics?.model || this.config.model || 'unknown',
+        metrics?.responseTimeMs || 0,
+        metrics?.toolRounds || 0,
+        message.author
+      );
+
+    } catch (error) {
+      console.error('Error storing interaction:', error);
+    }
+  }
+
+  private createHistoryStore(): HistoryStore {
+    const type = this.config.historyStore || 'auto';
+    const resolved: HistoryStoreType = type === 'auto'
+      ? (this.databaseService ? 'supabase' : 'memory')
+      : type;
+
+    try {
+      return createHistoryStore(resolved, {
+        ...(this.databaseService && { database: this.databaseService }),
+        ...(this.config.historyDir && { directory: this.config.historyDir })
+      });
+    } catch (error) {
+      logger.warning(`Falling back to in-memory history: ${error instanceof Error ? error.message : error}`);
+      return new MemoryHistoryStore();
+    }
+  }
+
+  /**
+   * Cached history for a chat, rehydrated from the history store the first
+   * time the chat is seen after a restart. Messages already folded into the
+   * running summary are not loaded again.
+   */
+  private async loadHistory(chatId: string): Promise<HistoryEntry[]> {
+    const cached = this.conversationHistory.get(chatId);
+    if (cached) {
+      return cached;
+    }
+
+    let history: HistoryEntry[] = [];
+    let summary: ConversationSummary | null = null;
+    try {
+      summary = await this.historyStore.loadSummary(chatId);
+      history = await this.historyStore.load(chatId, MAX_HISTORY_LENGTH, summary?.coveredUntil);
+      if (history.length > 0 || summary) {
+        logger.debug(`Rehydrated ${history.length} history messages${summary ? ' and a summary' : ''} for ${chatId} from ${this.historyStore.type} store`);
+      }
+    } catch (error) {
+      console.warn(`Could not load conversation history for ${chatId}:`, error);
+    }
+
+    // Another message for the same chat may have populated the cache meanwhile
+    const current = this.conversationHistory.get(chatId);
+    if (current) {
+      return current;
+    }
+
+    this.conversationHistory.set(chatId, history);
+    if (summary) {
+      this.conversationSummaries.set(chatId, summary);
+    }
+    return history;
   }
 
-  private async storeInteraction(message: BotMessage, response: BotResponse): Promise<void> {
-    if (!this.databaseService) return;
+  private async getConversationHistory(userId: string): Promise<LLMMessage[]> {
+    const history = await this.loadHistory(userId);
+    return history.map(entry => ({ role: entry.role, content: entry.content }));
+  }
 
-    try {
-      // Store user message
-      const { user, conversation, message: storedMessage } = await this.databaseService.saveUserMessage(message);
+  /**
+   * Model, answer length and temperature sent with every answer, so a model
+   * switched with /model applies without rebuilding the provider.
+   */
+  private getGenerationSettings(): LLMGenerationOptions {
+    return {
+      ...(this.config.model && { model: this.config.model }),
+      maxTokens: this.config.maxTokens || 1000,
+      temperature: this.config.temperature ?? 0.7
+    };
+  }
 
-      // Store bot response
-      await this.databaseService.saveBotResponse(
-        conversation.id,
-        `${message.id}_response`,
-        response.content,
-        { content: response.content }, // LLMResponse placeholder
-        this.llmProvider.name,
-        'claude-sonnet-4-20250514',
-        0 // response time placeholder
-      );
+  private createContextManager(): ContextManager {
+    return new ContextManager({
+      provider: this.llmProvider.name,
+      ...(this.config.model && { model: this.config.model }),
+      ...(this.config.summaryModel && { summaryModel: this.config.summaryModel }),
+      maxOutputTokens: this.config.maxTokens || 1000,
+      ...(this.config.maxContextTokens && { maxContextTokens: this.config.maxContextTokens })
+    });
+  }
 
-    } catch (error) {
-      console.error('Error storing interaction:', error);
+  /**
+   * Fit the chat's history to the model's token budget next to the system
+   * prompt, tool schemas and the new turn. Turns that no longer fit are
+   * folded into the running summary in the background, so the summary used
+   * here is the one from before; it is placed ahead of the system prompt.
+   */
+  private async buildConversationContext(
+    chatId: string,
+    basePrompt: string,
+    request: Omit<ContextFitRequest, 'systemPrompt'>
+  ): Promise<{ history: LLMMessage[]; systemPrompt: string }> {
+    const entries = [...await this.loadHistory(chatId)];
+    const overflow = Math.max(0, entries.length - MAX_HISTORY_LENGTH);
+    const history: LLMMessage[] = entries
+      .slice(overflow)
+      .map(entry => ({ role: entry.role, content: entry.content }));
+    const summary = this.conversationSummaries.get(chatId);
+
+    const fit = this.contextManager.fitHistory(history, {
+      ...request,
+      systemPrompt: this.contextManager.withSummary(basePrompt, summary?.content)
+    });
+
+    logger.debug(`Context for ${chatId}: ~${fit.usedTokens}/${fit.budget} tokens, ${fit.messages.length}/${history.length} history messages`);
+    if (fit.truncatedMessages > 0) {
+      logger.info(`Context budget: truncated ${fit.truncatedMessages} older messages for ${chatId}`);
+    }
+
+    if (overflow + fit.dropped.length > 0) {
+      this.scheduleSummary(chatId, entries.slice(0, overflow + fit.dropped.length));
     }
+
+    return {
+      history: fit.messages,
+      systemPrompt: this.contextManager.withSummary(basePrompt, summary?.content)
+    };
   }
 
-  private getConversationHistory(userId: string): LLMMessage[] {
-    const history = this.conversationHistory.get(userId) || [];
-    
-    const maxHistoryLength = 10;
-    if (history.length > maxHistoryLength) {
-      return history.slice(-maxHistoryLength);
+  /**
+   * Summarize dropped turns off the reply path. Turns stay in the cached
+   * history until they are summarized, so a chat already being summarized
+   * is skipped and its newer overflow picked up by a later request.
+   */
+  private scheduleSummary(chatId: string, droppedEntries: HistoryEntry[]): void {
+    if (this.pendingSummaries.has(chatId)) {
+      return;
+    }
+
+    this.pendingSummaries.add(chatId);
+    this.summarizeDroppedTurns(chatId, droppedEntries)
+      .finally(() => this.pendingSummaries.delete(chatId));
+  }
+
+  private async summarizeDroppedTurns(chatId: string, droppedEntries: HistoryEntry[]): Promise<void> {
+    const previous = this.conversationSummaries.get(chatId);
+    const cachedHistory = this.conversationHistory.get(chatId);
+    const droppedMessages: LLMMessage[] = droppedEntries.map(entry => ({ role: entry.role, content: entry.content }));
+    let timeoutHandle: NodeJS.Timeout | undefined;
+
+    try {
+      logger.info(`Summarizing ${droppedMessages.length} older messages for ${chatId}`);
+      const content = await Promise.race([
+        this.contextManager.summarize(this.llmProvider, droppedMessages, previous?.content),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(() => reject(new Error(`timed out after ${SUMMARY_TIMEOUT_MS}ms`)), SUMMARY_TIMEOUT_MS);
+        })
+      ]);
+
+      // The chat was cleared or reloaded meanwhile; the summary is stale
+      if (this.conversationHistory.get(chatId) !== cachedHistory) {
+        return;
+      }
+
+      const summary: ConversationSummary = {
+        content,
+        coveredUntil: Math.max(previous?.coveredUntil ?? 0, ...droppedEntries.map(entry => entry.timestamp)),
+        updatedAt: Date.now()
+      };
+
+      this.conversationSummaries.set(chatId, summary);
+
+      // The summarized turns now live in the summary only
+      const summarized = new Set(droppedEntries);
+      const cached = this.conversationHistory.get(chatId);
+      if (cached) {
+        this.conversationHistory.set(chatId, cached.filter(entry => !summarized.has(entry)));
+      }
+
+      await this.historyStore.saveSummary(chatId, summary).catch(error =>
+        console.warn(`Could not persist conversation summary for ${chatId}:`, error)
+      );
+    } catch (error) {
+      logger.warning(`Conversation summarization failed for ${chatId}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      clearTimeout(timeoutHandle);
     }
-    
-    return history;
   }
 
   private isToolQuery(message: string): boolean {
@@ -802,9 +1623,538 @@ export class Chatbot extends EventEmitter {
     }
   }
 
+  private registerCommands(): void {
+    const router = this.commandRouter;
+
+    router.register({
+      name: 'help',
+      description: 'List the available commands, or show details for one',
+      usage: '[command]',
+      aliases: ['commands'],
+      execute: async ({ message, args }) => {
+        if (args[0]) {
+          const command = router.getCommand(args[0]);
+          return command ? router.formatHelp(command) : `❓ Unknown command "${args[0]}".`;
+        }
+
+        const list = router.getCommands(message)
+          .map(command => `• *${router.formatUsage(command)}* - ${command.description}`)
+          .join('\n');
+        return `🤖 *Commands:*\n${list}\n\nSend */help <command>* for details. Anything else is answered as a normal chat message.`;
+      }
+    });
+
+    router.register({
+      name: 'reset',
+      description: 'Forget this conversation and start fresh (remembered facts are kept)',
+      aliases: ['clear'],
+      execute: async ({ message, isAdmin }) => {
+        // A shared group history belongs to every member, not just the sender
+        if (message.isGroup && this.getHistoryKey(message) === message.from && !isAdmin) {
+          return '🔒 Only bot admins can reset the shared group conversation.';
+        }
+
+        await this.clearConversationHistory(this.getHistoryKey(message));
+        return '🧹 Conversation cleared. Let\'s start fresh!';
+      }
+    });
+
+    router.register({
+      name: 'model',
+      description: 'Show the language model answering your messages, or switch it (admins)',
+      usage: '[model]',
+      execute: async ({ args, isAdmin }) => {
+        if (args[0]) {
+          if (!isAdmin) {
+            return '🔒 Only bot admins can switch the model.';
+          }
+          this.config.model = args[0];
+          // The context budget depends on the model's window
+          this.contextManager = this.createContextManager();
+          this.ragService?.setContextManager(this.contextManager);
+          return `🔄 Now answering with *${args[0]}* on ${this.llmProvider.name}.`;
+        }
+
+        const lines = [
+          '🧠 *Model*',
+          `• Provider: ${this.llmProvider.name}`,
+          `• Model: ${this.config.model || 'provider default'}`,
+          ...(this.config.summaryModel ? [`• Summaries: ${this.config.summaryModel}`] : []),
+          `• Max answer tokens: ${this.config.maxTokens || 1000}`,
+          `• Temperature: ${this.config.temperature ?? 0.7}`,
+          `• Context budget: ${this.contextManager.getBudget().toLocaleString()} tokens`,
+          `• Streaming: ${this.config.enableStreaming !== false ? 'on' : 'off'}`
+        ];
+        if (this.llmProvider instanceof FallbackProvider) {
+          const chain = this.llmProvider.getStatus();
+          if (chain.length > 1) {
+            lines.push('', '*Fallback chain*', ...chain.map(target => {
+              const state = target.state === 'open' && target.retryAt
+                ? `skipped until ${target.retryAt.toLocaleTimeString()}`
+                : target.state;
+              return `• ${target.provider}${target.model ? ` (${target.model})` : ''}: ${state}`;
+            }));
+          }
+        }
+        return lines.join('\n');
+      }
+    });
+
+    router.register({
+      name: 'tools',
+      description: 'List the tools I can use, or describe one',
+      usage: '[tool]',
+      execute: async ({ message, args }) => this.handleToolsCommand(message, args[0])
+    });
+
+    router.register({
+      name: 'stats',
+      description: 'Show your usage statistics',
+      execute: async (context) => this.handleStatsCommand(context)
+    });
+
+    router.register({
+      name: 'forget',
+      description: 'List what I remember about you, forget one fact, or forget everything',
+      usage: '[all | <fact or id>]',
+      examples: ['/forget', '/forget my timezone', '/forget all'],
+      execute: async ({ message, rawArgs }) => this.handleForgetCommand(message, rawArgs)
+    });
+
+    router.register({
+      name: 'docs',
+      description: 'List the documents you have shared with me, or delete one',
+      usage: '[delete <id>]',
+      aliases: ['documents'],
+      examples: ['/docs', '/docs delete 3f2a9c1e'],
+      execute: async ({ message, args }) => this.handleDocsCommand(message, args)
+    });
+
+    router.register({
+      name: 'voice',
+      description: 'Show or change when I answer with voice notes',
+      usage: '[auto|on|off]',
+      examples: ['/voice auto - answer voice notes with a voice note', '/voice on - answer everything with a voice note', '/voice off - always answer in text'],
+      execute: async ({ message, args }) => this.handleVoiceCommand(message, args[0])
+    });
+
+    router.register({
+      name: 'prompts',
+      description: 'List the prompt templates provided by MCP servers',
+      execute: async () => this.listPrompts()
+    });
+
+    router.register({
+      name: 'prompt',
+      description: 'Run an MCP prompt template',
+      usage: '<name> [args...]',
+      examples: ['/prompt summarize url=https://example.com', '/prompt translate "good morning" german'],
+      execute: async ({ message, args }) => {
+        const [name, ...rest] = args;
+        if (!name) {
+          return this.listPrompts();
+        }
+
+        const overLimit = await this.checkQuota(message);
+        if (overLimit) {
+          return overLimit;
+        }
+        return await this.withPresence(message.from, () => this.runPrompt(message, name, rest));
+      }
+    });
+
+    this.registerAdminCommands();
+  }
+
+  private registerAdminCommands(): void {
+    const router = this.commandRouter;
+
+    router.register({
+      name: 'tool',
+      description: 'Enable, disable or reload a local tool',
+      usage: '<enable|disable|reload> <tool>',
+      permission: 'admin',
+      minArgs: 2,
+      examples: ['/tool disable web_search', '/tool reload calculator'],
+      execute: async ({ args }) => {
+        const [action = '', toolName = ''] = args;
+        switch (action.toLowerCase()) {
+          case 'enable':
+            return this.enableTool(toolName) ? `✅ Tool *${toolName}* enabled.` : `❓ No tool named "${toolName}".`;
+          case 'disable':
+            return this.disableTool(toolName) ? `⏸️ Tool *${toolName}* disabled.` : `❓ No tool named "${toolName}".`;
+          case 'reload':
+            return await this.reloadTool(toolName) ? `🔄 Tool *${toolName}* reloaded.` : `❌ Could not reload "${toolName}" (unknown or built-in tool).`;
+          default:
+            return `⚠️ Unknown action "${action}". Use enable, disable or reload.`;
+        }
+      }
+    });
+
+    router.register({
+      name: 'mcp',
+      description: 'Show MCP server status, or enable, disable or reconnect a server',
+      usage: '[enable|disable|reconnect <server>]',
+      permission: 'admin',
+      examples: ['/mcp', '/mcp reconnect github'],
+      execute: async ({ args }) => {
+        if (!this.mcpService) {
+          return '🔌 MCP is not enabled.';
+        }
+
+        const [action, serverName] = args;
+        if (!action) {
+          const status = Object.entries(this.getMCPServerStatus());
+          if (status.length === 0) {
+            return '🔌 No MCP servers are configured.';
+          }
+          const list = status
+            .map(([name, server]) => `• ${server.connected ? '🟢' : '⚪'} *${name}* - ${server.toolCount} tools, ${server.resourceCount} resources, ${server.promptCount} prompts`)
+            .join('\n');
+          return `🔌 *MCP servers:*\n${list}`;
+        }
+
+        if (!serverName) {
+          return '⚠️ Usage: */mcp <enable|disable|reconnect> <server>*';
+        }
+
+        switch (action.toLowerCase()) {
+          case 'enable':
+            if (!this.enableMCPServer(serverName)) {
+              return `❓ No MCP server named "${serverName}".`;
+            }
+            return await this.reconnectMCPServer(serverName)
+              ? `✅ MCP server *${serverName}* enabled and connected.`
+              : `⚠️ MCP server *${serverName}* enabled but could not connect. Try /mcp reconnect ${serverName}.`;
+          case 'disable':
+            return this.disableMCPServer(serverName) ? `⏸️ MCP server *${serverName}* disabled.` : `❓ No MCP server named "${serverName}".`;
+          case 'reconnect':
+            return await this.reconnectMCPServer(serverName) ? `🔄 Reconnected to *${serverName}*.` : `❌ Could not reconnect to "${serverName}".`;
+          default:
+            return `⚠️ Unknown action "${action}". Use enable, disable or reconnect.`;
+        }
+      }
+    });
+
+    router.register({
+      name: 'provider',
+      description: 'Switch the LLM provider at runtime',
+      usage: '<anthropic|openrouter|openai|local>',
+      permission: 'admin',
+      minArgs: 1,
+      execute: async ({ args }) => {
+        const type = args[0]!.toLowerCase();
+        if (type !== 'anthropic' && type !== 'openrouter' && type !== 'openai' && type !== 'local') {
+          return `⚠️ Unknown provider "${args[0]}". Use anthropic, openrouter, openai or local.`;
+        }
+
+        const modelConfig = configManager.config.models[type];
+        const provider = ProviderSelector.createProvider(type);
+        // Keep the configured fallbacks behind the new primary provider
+        this.updateLLMProvider(this.llmProvider instanceof FallbackProvider ? this.llmProvider.withPrimary(provider) : provider, modelConfig);
+        return `🔄 Switched to *${this.llmProvider.name}* (${modelConfig.model}).`;
+      }
+    });
+
+    router.register({
+      name: 'cache',
+      description: 'Show cache statistics, or clear the cache',
+      usage: '[clear]',
+      permission: 'admin',
+      execute: async ({ args }) => {
+        if (args[0]?.toLowerCase() === 'clear') {
+          this.clearCache();
+          return '🧹 Cache cleared.';
+        }
+
+        const { cache } = this.getStats();
+        return `🗄️ *Cache:* ${cache.keys} keys, ${cache.hits} hits, ${cache.misses} misses\nSend */cache clear* to flush it.`;
+      }
+    });
+
+    router.register({
+      name: 'kb',
+      description: 'Add an entry to the shared knowledge base',
+      usage: '<title> | <content>',
+      permission: 'admin',
+      minArgs: 1,
+      examples: ['/kb Opening hours | We are open Monday to Friday, 9:00-17:00.'],
+      execute: async ({ message, rawArgs }) => {
+        const separator = rawArgs.indexOf('|');
+        const title = separator >= 0 ? rawArgs.substring(0, separator).trim() : '';
+        const content = separator >= 0 ? rawArgs.substring(separator + 1).trim() : '';
+        if (!title || !content) {
+          return '⚠️ Usage: */kb <title> | <content>*';
+        }
+
+        const added = await this.addKnowledge(title, content, `whatsapp:${message.author || message.from}`);
+        return added ? `📚 Added *${title}* to the knowledge base.` : '❌ Could not add the entry. Is RAG enabled?';
+      }
+    });
+  }
+
+  private listPrompts(): string {
+    const prompts = this.mcpService ? this.mcpService.getAvailablePrompts() : [];
+    if (prompts.length === 0) {
+      return '📭 No MCP prompts are available right now.';
+    }
+
+    const list = prompts.map(prompt => {
+      const args = (prompt.arguments || []).map(arg => arg.required ? `<${arg.name}>` : `[${arg.name}]`).join(' ');
+      // Names offered by several servers only work qualified with the server
+      const shared = prompts.filter(other => other.name === prompt.name).length > 1;
+      const name = shared ? this.mcpService!.getQualifiedPromptName(prompt) : prompt.name;
+      return `• */prompt ${name}${args ? ` ${args}` : ''}* - ${prompt.description || 'No description'} _(${prompt.server})_`;
+    }).join('\n');
+
+    return `📝 *Available prompts (${prompts.length}):*\n${list}`;
+  }
+
+  private async runPrompt(message: BotMessage, name: string, rest: string[]): Promise<BotResponse | string | null> {
+    const candidates = this.mcpService?.findPrompts(name) || [];
+    if (candidates.length > 1) {
+      const options = candidates.map(prompt => `• */prompt ${this.mcpService!.getQualifiedPromptName(prompt)}* _(${prompt.server})_`).join('\n');
+      return `⚠️ Several MCP servers offer a prompt called "${name}". Pick one:\n${options}`;
+    }
+
+    const definition = candidates[0];
+    if (!this.mcpService || !definition) {
+      return `❓ Unknown prompt "${name}". Send /prompts to see the available prompts.`;
+    }
+
+    // Map key=value pairs by name and positional values onto declared arguments in order
+    const declared = definition.arguments || [];
+    const args: Record<string, string> = {};
+    const positional: string[] = [];
+    rest.forEach(token => {
+      const match = token.match(/^([\w-]+)=(.*)$/);
+      if (match && declared.some(arg => arg.name === match[1])) {
+        args[match[1]!] = match[2]!;
+      } else {
+        positional.push(token);
+      }
+    });
+
+    const unfilled = declared.filter(arg => args[arg.name] === undefined);
+    unfilled.forEach((arg, index) => {
+      if (positional.length === 0) return;
+      // The last unfilled argument takes whatever text is left
+      args[arg.name] = index === unfilled.length - 1 ? positional.splice(0).join(' ') : positional.shift()!;
+    });
+
+    const missing = declared.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      const usage = declared.map(arg => arg.required ? `<${arg.name}>` : `[${arg.name}]`).join(' ');
+      return `⚠️ Missing ${missing.map(arg => arg.name).join(', ')}.\nUsage: */prompt ${name} ${usage}*`;
+    }
+
+    const promptMessages = await this.mcpService.getPrompt(name, args);
+    logger.tool(`Expanded MCP prompt ${name} from ${definition.server} into ${promptMessages.length} messages`);
+
+    const response = await this.generateResponse(message, promptMessages);
+    if (response) {
+      const expanded = promptMessages
+        .filter(promptMessage => promptMessage.role === 'user')
+        .map(promptMessage => promptMessage.content as string)
+        .join('\n\n');
+      await this.updateConversationHistory(this.getHistoryKey(message), expanded, response.content);
+      await this.recordQuotaUsage(message, response);
+      this.logInteraction(message, response);
+
+      // Stored with the expanded prompt, so the turn is part of the persisted history
+      if (this.databaseService) {
+        await this.storeInteraction({ ...message, content: expanded }, response).catch(err =>
+          console.error('Database storage error:', err)
+        );
+      }
+    }
+    return response;
+  }
+
+  private handleToolsCommand(message: BotMessage, toolName?: string): string {
+    const { localTools, mcpTools } = this.getToolsFor(message);
+
+    if (toolName) {
+      const tool = [...localTools, ...mcpTools].find(candidate => candidate.name.toLowerCase() === toolName.toLowerCase());
+      if (!tool) {
+        return `❓ No tool named "${toolName}". Send /tools to see them all.`;
+      }
+
+      const required: string[] = tool.parameters?.required || [];
+      const params = Object.entries<any>(tool.parameters?.properties || {})
+        .map(([name, schema]) => `• \`${name}\`${required.includes(name) ? '' : ' _(optional)_'} - ${schema.description || schema.type || ''}`);
+
+      return [`🔧 *${tool.name}*`, tool.description, ...(params.length > 0 ? ['', '*Parameters:*', ...params] : [])].join('\n');
+    }
+
+    if (localTools.length === 0 && mcpTools.length === 0) {
+      return '😔 No tools are available right now.';
+    }
+
+    const groups = new Map<string, string[]>();
+    localTools.forEach(tool => {
+      const category = this.toolManager.getTool(tool.name)?.category || 'general';
+      groups.set(category, [...(groups.get(category) || []), tool.name]);
+    });
+    if (mcpTools.length > 0) {
+      groups.set('mcp', mcpTools.map(tool => tool.name));
+    }
+
+    const sections = Array.from(groups.entries())
+      .map(([category, names]) => `*${category}:* ${names.join(', ')}`)
+      .join('\n');
+
+    return `🔧 *Available tools (${localTools.length + mcpTools.length}):*\n${sections}\n\nSend */tools <name>* for details, or just ask naturally and I'll pick the right tool.`;
+  }
+
+  private async handleStatsCommand({ message, isAdmin }: CommandContext): Promise<string> {
+    const lines: string[] = [];
+    const userId = await this.getUserId(message);
+
+    if (this.databaseService && userId) {
+      const stats = await this.databaseService.getUserStats(userId);
+      lines.push(
+        '📊 *Your stats*',
+        `• Messages: ${stats.totalMessages}`,
+        `• Conversations: ${stats.totalConversations}`,
+        `• Tokens used: ${stats.totalTokensUsed.toLocaleString()}`,
+        `• Estimated cost: ${formatCost(stats.usage.totalCostUsd)}`,
+        ...(stats.firstMessageDate ? [`• First message: ${new Date(stats.firstMessageDate).toLocaleDateString()}`] : [])
+      );
+    } else {
+      const history = this.conversationHistory.get(this.getHistoryKey(message)) || [];
+      lines.push('📊 *Your stats*', `• Messages in this conversation: ${history.length}`);
+    }
+
+    if (this.quota) {
+      const usage = await this.quota.getUsage(this.getQuotaSubjects(message)[0]!);
+      const { dailyTokens, maxRequests, windowMs } = usage.limits;
+      lines.push(
+        `• Tokens today: ${usage.tokensToday.toLocaleString()}${dailyTokens ? ` / ${dailyTokens.toLocaleString()}` : ' (unlimited)'}`,
+        `• Rate limit: ${maxRequests ? `${usage.requestsInWindow} / ${maxRequests} per ${this.formatDuration(windowMs)}` : 'unlimited'}`
+      );
+    }
+
+    if (isAdmin) {
+      const stats = this.getStats();
+      lines.push(
+        '',
+        '🤖 *Bot*',
+        `• Active conversations: ${stats.activeConversations}`,
+        `• Cached messages: ${stats.totalMessages}`,
+        `• Provider: ${stats.provider}`,
+        `• Tools: ${stats.features.tools} local, ${stats.features.mcpTools} MCP`,
+        `• Cache: ${stats.cache.keys} keys, ${stats.cache.hits} hits, ${stats.cache.misses} misses`
+      );
+
+      if (this.databaseService) {
+        const system = await this.databaseService.getSystemStats();
+        const models = Object.entries(system.usage.byModel)
+          .sort(([, a], [, b]) => b.costUsd - a.costUsd)
+          .map(([model, usage]) => `  ◦ ${model}: ${usage.responses} replies, ${usage.tokens.toLocaleString()} tokens, ${formatCost(usage.costUsd)}`);
+        lines.push(
+          `• Users: ${system.totalUsers} (${system.activeUsersLast24h} active in 24h)`,
+          `• Tokens used: ${system.totalTokensUsed.toLocaleString()}`,
+          `• Estimated cost: ${formatCost(system.usage.totalCostUsd)}`,
+          ...models
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private async handleForgetCommand(message: BotMessage, target: string): Promise<string> {
+    const userId = await this.getUserId(message);
+    if (!this.userMemory || !userId) {
+      return '🧠 Long-term memory is not enabled.';
+    }
+
+    if (!target) {
+      const facts = await this.userMemory.listFacts(userId);
+      if (facts.length === 0) {
+        return '🧠 I don\'t remember anything about you yet.';
+      }
+      const list = facts.map(fact => `• ${fact.content} _(${fact.id.substring(0, 8)})_`).join('\n');
+      return `🧠 *What I remember about you (${facts.length}):*\n${list}\n\nSend */forget <fact>* or */forget all* to remove facts.`;
+    }
+
+    if (target.toLowerCase() === 'all') {
+      const removed = await this.userMemory.forgetAll(userId);
+      return removed > 0 ? `🧹 Forgot ${removed} facts about you.` : '🧠 There was nothing to forget.';
+    }
+
+    // Accept the short ids shown in the list as well as full ids
+    const facts = await this.userMemory.listFacts(userId);
+    const byId = facts.find(fact => fact.id.startsWith(target));
+    const removed = await this.userMemory.forgetFact(userId, byId ? byId.id : target);
+    return removed ? `🗑️ Forgot: ${removed.content}` : `❓ I don't remember anything matching "${target}".`;
+  }
+
+  private async handleDocsCommand(message: BotMessage, args: string[]): Promise<string> {
+    if (!this.vectorService) {
+      return '📄 Document storage is not enabled.';
+    }
+
+    // Documents are stored under the sender's WhatsApp id (the author in groups)
+    const owner = message.author || message.from;
+    const documents = await this.vectorService.getDocumentsByUser(owner);
+    const [action, id] = args;
+
+    if (action?.toLowerCase() === 'delete') {
+      if (!id) {
+        return '⚠️ Usage: */docs delete <id>*';
+      }
+
+      const document = documents.find(candidate => candidate.id.startsWith(id));
+      if (!document) {
+        return `❓ You have no document with id "${id}".`;
+      }
+
+      await this.vectorService.deleteDocument(document.id);
+      logger.rag(`Deleted document ${document.id} (${document.filename}) for ${owner}`);
+      return `🗑️ Deleted *${document.filename}*.`;
+    }
+
+    if (documents.length === 0) {
+      return '📭 You haven\'t shared any documents yet. Send me a PDF to add it to your knowledge base.';
+    }
+
+    const list = documents.map(document =>
+      `• *${document.filename}* _(${document.id.substring(0, 8)})_ - ${(document.file_size / 1024).toFixed(0)} KB, ${new Date(document.created_at).toLocaleDateString()}`
+    ).join('\n');
+
+    return `📄 *Your documents (${documents.length}):*\n${list}\n\nSend */docs delete <id>* to remove one.`;
+  }
+
+  private async handleVoiceCommand(message: BotMessage, choice?: string): Promise<string> {
+    if (!this.tts) {
+      return '🔇 Voice replies are not enabled on this bot.';
+    }
+
+    const labels: Record<VoiceReplyMode, string> = {
+      auto: 'I answer voice notes with a voice note and text with text',
+      always: 'I answer every message with a voice note',
+      off: 'I always answer in text'
+    };
+
+    if (!choice) {
+      const mode = await this.getVoiceMode(message);
+      return `🔊 Voice replies: *${mode === 'always' ? 'on' : mode}* - ${labels[mode]}.\nChange with */voice auto*, */voice on* or */voice off*.`;
+    }
+
+    const modes: Record<string, VoiceReplyMode> = { auto: 'auto', on: 'always', always: 'always', off: 'off' };
+    const mode = modes[choice.toLowerCase()];
+    if (!mode) {
+      return '⚠️ Usage: */voice [auto|on|off]*';
+    }
+
+    await this.setVoiceMode(message, mode);
+    return `🔊 Done - ${labels[mode]}.`;
+  }
+
   private async handleToolQuery(message: BotMessage): Promise<BotResponse> {
-    const localTools = this.toolManager.getAvailableTools();
-    const mcpTools = this.mcpService ? this.mcpService.getAvailableTools() : [];
+    const { localTools, mcpTools } = this.getToolsFor(message);
     const availableTools = [...localTools, ...mcpTools];
     
     if (availableTools.length === 0) {
@@ -826,8 +2176,82 @@ export class Chatbot extends EventEmitter {
     };
   }
 
-  private generateDynamicSystemPrompt(availableTools: any[]): string {
-    const basePrompt = this.config.systemPrompt || 'You are a helpful WhatsApp chatbot assistant.';
+  /**
+   * Remembered facts about the sender that relate to the current message.
+   */
+  private async getRelevantFacts(message: BotMessage): Promise<UserFact[]> {
+    if (!this.userMemory || !this.databaseService) {
+      return [];
+    }
+
+    try {
+      const userId = await this.getUserId(message);
+      if (!userId) {
+        return [];
+      }
+
+      const matches = await this.userMemory.findRelevantFacts(userId, message.content);
+      if (matches.length > 0) {
+        logger.debug(`Injecting ${matches.length} remembered facts for ${message.from}`);
+      }
+      return matches.map(match => match.fact);
+    } catch (error) {
+      logger.warning(`Could not load user facts: ${error instanceof Error ? error.message : error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Conversation history key: the chat, or the sender's own thread when the
+   * group keeps per-member history.
+   */
+  private getHistoryKey(message: BotMessage): string {
+    return this.groupPolicies.historyKey(message);
+  }
+
+  /** Local and MCP tools usable for this message under its group policy */
+  private getToolsFor(message: BotMessage): { localTools: ToolFunction[]; mcpTools: ToolFunction[] } {
+    const allowed = (tool: ToolFunction) => this.groupPolicies.isToolAllowed(message, tool.name);
+    return {
+      localTools: this.toolManager.getAvailableTools().filter(allowed),
+      mcpTools: (this.mcpService ? this.mcpService.getAvailableTools() : []).filter(allowed)
+    };
+  }
+
+  /**
+   * Database id of the sender, or null without a database.
+   */
+  private async getUserId(message: BotMessage): Promise<string | null> {
+    if (!this.databaseService) {
+      return null;
+    }
+
+    const sender = message.author || message.from;
+    let userId = this.userIds.get(sender);
+    if (userId) {
+      // Re-inserting keeps the map in least-recently-used order
+      this.userIds.delete(sender);
+    } else {
+      userId = (await this.databaseService.getOrCreateUser(sender, message.senderName)).id;
+      if (this.userIds.size >= MAX_CACHED_USER_IDS) {
+        this.userIds.delete(this.userIds.keys().next().value!);
+      }
+    }
+    this.userIds.set(sender, userId);
+    return userId;
+  }
+
+  private generateDynamicSystemPrompt(availableTools: any[], facts: UserFact[] = [], message?: BotMessage): string {
+    const groupPolicy = message ? this.groupPolicies.resolve(message) : null;
+    let basePrompt = groupPolicy?.systemPrompt || this.config.systemPrompt || 'You are a helpful WhatsApp chatbot assistant.';
+
+    if (message?.isGroup && groupPolicy?.historyScope === 'group') {
+      basePrompt += `\n\n👥 You are in the WhatsApp group "${message.groupName || 'unnamed'}" and several people share this conversation. The current message is from ${message.senderName || 'a group member'}.`;
+    }
+
+    if (facts.length > 0) {
+      basePrompt += `\n\n🧠 **What you remember about this user:**\n${facts.map(fact => `• ${fact.content}`).join('\n')}\nUse these facts when relevant; don't repeat them back unprompted.`;
+    }
     
     if (availableTools.length === 0) {
       return basePrompt + '\n\n**Note:** No external tools are currently available.';
@@ -858,6 +2282,7 @@ ${toolDescriptions}
 • **You can call the SAME tool multiple times** - For different parameters or calculations
 • **Use multiple tools for complex queries** - Combine calculator + search + weather etc.
 • **Tools execute concurrently** - No need to wait for one tool to complete before calling another
+• **You can CHAIN tools across turns** - Tool results are returned to you, so use one tool's output to decide the next call (e.g. search first, then calculate with the numbers found)
 
 **Examples of MANDATORY tool usage:**
 • "Calculate 2+2" → MUST use calculator tool
@@ -874,20 +2299,27 @@ ${toolDescriptions}
 • "Generate 3 UUIDs" → Use uuid tool THREE times simultaneously`;
   }
 
-  private updateConversationHistory(userId: string, userMessage: string, botResponse: string): void {
+  private async updateConversationHistory(userId: string, userMessage: string, botResponse: string): Promise<void> {
+    await this.loadHistory(userId);
+    const now = Date.now();
+    const entries: HistoryEntry[] = [
+      { role: 'user', content: userMessage, timestamp: now },
+      { role: 'assistant', content: botResponse, timestamp: now }
+    ];
+
+    // Summarization may have replaced the cached array while loading
     const history = this.conversationHistory.get(userId) || [];
-    
-    history.push(
-      { role: 'user', content: userMessage },
-      { role: 'assistant', content: botResponse }
-    );
+    history.push(...entries);
 
-    const maxHistoryLength = 20;
-    if (history.length > maxHistoryLength) {
-      history.splice(0, history.length - maxHistoryLength);
+    // Overflow is normally summarized on the next request; this only bounds
+    // chats whose replies never go through buildConversationContext
+    if (history.length > MAX_HISTORY_LENGTH * 2) {
+      history.splice(0, history.length - MAX_HISTORY_LENGTH * 2);
     }
-
     this.conversationHistory.set(userId, history);
+
+    await this.historyStore.append(userId, entries)
+      .catch(error => console.warn(`Could not persist conversation history for ${userId}:`, error));
   }
 
   private logInteraction(message: BotMessage, response: BotResponse): void {
@@ -898,6 +2330,14 @@ ${toolDescriptions}
     logger.messageContent(message.content);
     logger.newLine();
     logger.botResponse(response.content);
+    if (response.attachments?.length) {
+      logger.debug(`Attachments: ${response.attachments.map(attachment => attachment.filename || attachment.type).join(', ')}`);
+    }
+    if (response.metrics) {
+      const { model, usage, responseTimeMs, toolRounds } = response.metrics;
+      const cost = calculateCost(model, usage);
+      logger.debug(`${model || 'unknown model'} | ${usage?.totalTokens ?? '?'} tokens | ${responseTimeMs}ms | ${toolRounds} tool rounds${cost !== null ? ` | ${formatCost(cost)}` : ''}`);
+    }
     logger.separator();
   }
 
@@ -913,16 +2353,28 @@ ${toolDescriptions}
     }
   }
 
-  clearConversationHistory(userId?: string): void {
-    if (userId) {
-      this.conversationHistory.delete(userId);
-    } else {
-      this.conversationHistory.clear();
+  async clearConversationHistory(userId?: string): Promise<void> {
+    const chatIds = userId ? [userId] : Array.from(this.conversationHistory.keys());
+
+    for (const chatId of chatIds) {
+      this.conversationHistory.delete(chatId);
+      this.conversationSummaries.delete(chatId);
+      await this.historyStore.clear(chatId).catch(error =>
+        console.warn(`Could not clear stored history for ${chatId}:`, error)
+      );
     }
   }
 
-  updateLLMProvider(provider: LLMProvider): void {
+  updateLLMProvider(provider: LLMProvider, modelConfig?: { model: string; maxTokens: number; temperature: number }): void {
     this.llmProvider = provider;
+    if (modelConfig) {
+      this.config.model = modelConfig.model;
+      this.config.maxTokens = modelConfig.maxTokens;
+      this.config.temperature = modelConfig.temperature;
+    }
+    this.contextManager = this.createContextManager();
+    this.ragService?.setLLMProvider(provider);
+    this.ragService?.setContextManager(this.contextManager);
     console.log(`🔄 LLM provider switched to: ${provider.name}`);
   }
 
@@ -1099,7 +2551,7 @@ ${toolDescriptions}
       
       const testMessage = this.generateTestMessage('test calculation');
       
-      const result = await this.executeToolCalls([testCall], testMessage);
+      const result = await this.executeToolCalls([testCall], testMessage, await this.createToolContext(testMessage));
       console.log('🔧 Calculator test result:', result);
     } catch (error) {
       console.error('❌ Calculator test failed:', error);
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandContext, CommandRouter, parseCommandArgs } from './commands';
+import { BotMessage, BotResponse } from '../types';
+
+const message = (content: string, overrides: Partial<BotMessage> = {}): BotMessage => ({
+  id: 'msg-1',
+  content,
+  from: '15550001111@c.us',
+  timestamp: 0,
+  isGroup: false,
+  senderName: 'Alex',
+  hasMedia: false,
+  ...overrides
+});
+
+/** Run a message through the router's middleware; `next` marks messages passed on */
+const route = async (router: CommandRouter, content: string, overrides: Partial<BotMessage> = {}) => {
+  let passedOn = false;
+  const response = await router.middleware()(message(content, overrides), async () => {
+    passedOn = true;
+    return null;
+  });
+  return { response: response as BotResponse | null, passedOn };
+};
+
+const echoRouter = (options: ConstructorParameters<typeof CommandRouter>[0] = {}) => {
+  const calls: CommandContext[] = [];
+  const router = new CommandRouter(options);
+  router.register({
+    name: 'echo',
+    description: 'Echo the arguments',
+    aliases: ['say'],
+    minArgs: 1,
+    execute: async context => {
+      calls.push(context);
+      return context.args.join('|');
+    }
+  });
+  router.register({
+    name: 'wipe',
+    description: 'Admins only',
+    permission: 'admin',
+    execute: async () => 'wiped'
+  });
+  return { router, calls };
+};
+
+test('parseCommandArgs splits on whitespace and honours quotes', () => {
+  assert.deepEqual(parseCommandArgs(`add "New York" 'two words'  plain`), ['add', 'New York', 'two words', 'plain']);
+  assert.deepEqual(parseCommandArgs(`""`), ['']);
+  assert.deepEqual(parseCommandArgs('   '), []);
+});
+
+test('messages that are not commands are passed on', async () => {
+  const { router } = echoRouter();
+
+  assert.deepEqual(await route(router, 'hello there'), { response: null, passedOn: true });
+});
+
+test('commands are dispatched by name or alias with parsed and raw arguments', async () => {
+  const { router, calls } = echoRouter();
+
+  const { response, passedOn } = await route(router, '/SAY "hi there" you');
+
+  assert.equal(passedOn, false);
+  assert.deepEqual(response, { content: 'hi there|you', quotedMessage: 'msg-1' });
+  assert.equal(calls[0]!.invokedAs, 'say');
+  assert.equal(calls[0]!.rawArgs, '"hi there" you');
+});
+
+test('missing arguments, unknown commands and admin-only commands get a reply', async () => {
+  const { router, calls } = echoRouter({ isAdmin: msg => msg.from === 'admin@c.us' });
+
+  assert.match((await route(router, '/echo')).response!.content, /Usage: \*\/echo\*/);
+  assert.match((await route(router, '/nope')).response!.content, /Unknown command \*\/nope\*/);
+  assert.match((await route(router, '/wipe')).response!.content, /only available to bot admins/);
+  assert.equal((await route(router, '/wipe', { from: 'admin@c.us' })).response!.content, 'wiped');
+  assert.equal(calls.length, 0);
+});
+
+test('commands the reply policy rejects are dropped without reaching the chat', async () => {
+  const { router, calls } = echoRouter({ shouldHandle: msg => !msg.isGroup });
+
+  assert.deepEqual(await route(router, '/echo hi', { isGroup: true }), { response: null, passedOn: false });
+  assert.equal(calls.length, 0);
+});
+
+test('help only lists commands the sender may run', () => {
+  const { router } = echoRouter({ isAdmin: msg => msg.from === 'admin@c.us' });
+
+  assert.deepEqual(router.getCommands(message('')).map(command => command.name), ['echo']);
+  assert.deepEqual(router.getCommands(message('', { from: 'admin@c.us' })).map(command => command.name), ['echo', 'wipe']);
+  assert.throws(() => router.register({ name: 'say', description: '', execute: async () => null }), /already registered/);
+});
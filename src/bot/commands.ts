@@ -0,0 +1,168 @@
+import { BotMessage, BotResponse, MessageMiddleware } from '../types';
+import { logger } from '../utils/logger';
+
+export type CommandPermission = 'everyone' | 'admin';
+
+export interface CommandContext {
+  message: BotMessage;
+  /** Arguments split on whitespace, honouring "double" and 'single' quotes */
+  args: string[];
+  /** Everything after the command name, unparsed */
+  rawArgs: string;
+  /** Invoked name, which may be an alias */
+  invokedAs: string;
+  isAdmin: boolean;
+}
+
+export interface Command {
+  name: string;
+  description: string;
+  /** Argument synopsis shown in help, e.g. "<name> [args...]" */
+  usage?: string;
+  aliases?: string[];
+  permission?: CommandPermission;
+  minArgs?: number;
+  /** Extra lines shown by /help <command> */
+  examples?: string[];
+  execute(context: CommandContext): Promise<BotResponse | string | null>;
+}
+
+export interface CommandRouterOptions {
+  prefix?: string;
+  isAdmin?: (message: BotMessage) => boolean;
+  /** Whether commands in this message are answered at all, e.g. the group reply policy */
+  shouldHandle?: (message: BotMessage) => boolean;
+}
+
+export function parseCommandArgs(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? '');
+  }
+
+  return tokens;
+}
+
+/**
+ * Dispatches "/command args" messages to registered commands. Runs as a
+ * message middleware ahead of the chat middleware so commands never reach
+ * the LLM; messages that are not commands are passed on untouched.
+ */
+export class CommandRouter {
+  private commands: Map<string, Command> = new Map();
+  private aliases: Map<string, string> = new Map();
+  private prefix: string;
+  private isAdmin: (message: BotMessage) => boolean;
+  private shouldHandle: (message: BotMessage) => boolean;
+
+  constructor(options: CommandRouterOptions = {}) {
+    this.prefix = options.prefix || '/';
+    this.isAdmin = options.isAdmin || (() => false);
+    this.shouldHandle = options.shouldHandle || (() => true);
+  }
+
+  register(command: Command): void {
+    const name = command.name.toLowerCase();
+    if (this.commands.has(name) || this.aliases.has(name)) {
+      throw new Error(`Command '${command.name}' is already registered`);
+    }
+
+    this.commands.set(name, command);
+    (command.aliases || []).forEach(alias => this.aliases.set(alias.toLowerCase(), name));
+  }
+
+  getCommand(name: string): Command | null {
+    const lower = name.toLowerCase();
+    const key = lower.startsWith(this.prefix) ? lower.substring(this.prefix.length) : lower;
+    return this.commands.get(key) || this.commands.get(this.aliases.get(key) || '') || null;
+  }
+
+  /** Commands the sender is allowed to run */
+  getCommands(message?: BotMessage): Command[] {
+    const admin = message ? this.isAdmin(message) : true;
+    return Array.from(this.commands.values())
+      .filter(command => admin || (command.permission || 'everyone') === 'everyone');
+  }
+
+  isCommand(content: string): boolean {
+    return content.trim().startsWith(this.prefix);
+  }
+
+  formatUsage(command: Command): string {
+    return `${this.prefix}${command.name}${command.usage ? ` ${command.usage}` : ''}`;
+  }
+
+  formatHelp(command: Command): string {
+    const lines = [
+      `*${this.formatUsage(command)}*`,
+      command.description
+    ];
+
+    if (command.aliases?.length) {
+      lines.push(`Aliases: ${command.aliases.map(alias => `${this.prefix}${alias}`).join(', ')}`);
+    }
+    if (command.permission === 'admin') {
+      lines.push('🔒 Admins only');
+    }
+    if (command.examples?.length) {
+      lines.push('', 'Examples:', ...command.examples.map(example => `• ${example}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  middleware(): MessageMiddleware {
+    return async (message, next) => {
+      if (!this.isCommand(message.content)) {
+        return await next();
+      }
+
+      // Commands the bot should not react to are dropped, not passed to the chat
+      if (!this.shouldHandle(message)) {
+        return null;
+      }
+
+      return await this.dispatch(message);
+    };
+  }
+
+  private async dispatch(message: BotMessage): Promise<BotResponse | null> {
+    const content = message.content.trim().substring(this.prefix.length);
+    const [invokedAs = '', ...rest] = content.split(/\s+/);
+    const rawArgs = content.substring(invokedAs.length).trim();
+    const command = this.getCommand(invokedAs);
+
+    const reply = (text: string): BotResponse => ({ content: text, quotedMessage: message.id });
+
+    if (!command) {
+      return reply(`❓ Unknown command *${this.prefix}${invokedAs}*. Send *${this.prefix}help* to see what I can do.`);
+    }
+
+    const isAdmin = this.isAdmin(message);
+    if (command.permission === 'admin' && !isAdmin) {
+      logger.warning(`Denied ${this.prefix}${command.name} for ${message.from}`);
+      return reply(`🔒 *${this.prefix}${command.name}* is only available to bot admins.`);
+    }
+
+    const args = rest.length > 0 ? parseCommandArgs(rawArgs) : [];
+    if (command.minArgs && args.length < command.minArgs) {
+      return reply(`⚠️ Usage: *${this.formatUsage(command)}*\n${command.description}`);
+    }
+
+    logger.info(`Command ${this.prefix}${command.name} from ${message.from}${args.length ? ` (${args.length} args)` : ''}`);
+
+    try {
+      const result = await command.execute({ message, args, rawArgs, invokedAs: invokedAs.toLowerCase(), isAdmin });
+      if (result === null) {
+        return null;
+      }
+      return typeof result === 'string' ? reply(result) : result;
+    } catch (error) {
+      console.error(`Error running command ${command.name}:`, error);
+      return reply(`🚨 *${this.prefix}${command.name}* failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GroupPolicies, GroupPolicy } from './group-policy';
+import { BotMessage } from '../types';
+
+const defaults: GroupPolicy = { replyMode: 'mention', keywords: [], historyScope: 'group' };
+
+const groupMessage = (overrides: Partial<BotMessage> = {}): BotMessage => ({
+  id: 'msg-1',
+  content: 'hello everyone',
+  from: '120363000000000000@g.us',
+  timestamp: 0,
+  isGroup: true,
+  senderName: 'Alex',
+  hasMedia: false,
+  groupName: 'Book Club',
+  author: '15550001111@c.us',
+  ...overrides
+});
+
+test('direct chats have no policy and are always answered', () => {
+  const policies = new GroupPolicies({ defaults: { ...defaults, replyMode: 'off' }, groups: {} });
+  const message = groupMessage({ isGroup: false, from: '15550001111@c.us' });
+
+  assert.equal(policies.resolve(message), null);
+  assert.equal(policies.shouldRespond(message), true);
+  assert.equal(policies.couldRespond(message), true);
+  assert.equal(policies.historyKey(message), '15550001111@c.us');
+});
+
+test('group overrides match by id or case-insensitive group name', () => {
+  const byId = new GroupPolicies({ defaults, groups: { '120363000000000000@g.us': { replyMode: 'all' } } });
+  const byName = new GroupPolicies({ defaults, groups: { 'book club': { replyMode: 'off' } } });
+
+  assert.equal(byId.resolve(groupMessage())?.replyMode, 'all');
+  assert.equal(byName.resolve(groupMessage())?.replyMode, 'off');
+  assert.equal(byName.resolve(groupMessage({ groupName: 'Other' }))?.replyMode, 'mention');
+});
+
+test('mention mode answers mentions, replies to the bot and keywords', () => {
+  const policies = new GroupPolicies({ defaults: { ...defaults, keywords: ['Bot'] }, groups: {} });
+
+  assert.equal(policies.shouldRespond(groupMessage()), false);
+  assert.equal(policies.shouldRespond(groupMessage({ mentionsBot: true })), true);
+  assert.equal(policies.shouldRespond(groupMessage({ isReplyToBot: true })), true);
+  assert.equal(policies.shouldRespond(groupMessage({ content: 'hey bot, any news?' })), true);
+});
+
+test('couldRespond allows unread content only when a keyword might match', () => {
+  const withoutKeywords = new GroupPolicies({ defaults, groups: {} });
+  const withKeywords = new GroupPolicies({ defaults: { ...defaults, keywords: ['bot'] }, groups: {} });
+  const voiceNote = groupMessage({ content: '' });
+
+  assert.equal(withoutKeywords.couldRespond(voiceNote), false);
+  assert.equal(withoutKeywords.couldRespond({ ...voiceNote, mentionsBot: true }), true);
+  assert.equal(withKeywords.couldRespond(voiceNote), true);
+});
+
+test('member history scope keys history by group and author', () => {
+  const policies = new GroupPolicies({ defaults: { ...defaults, historyScope: 'member' }, groups: {} });
+
+  const { author: _author, ...withoutAuthor } = groupMessage();
+
+  assert.equal(policies.historyKey(groupMessage()), '120363000000000000@g.us:15550001111@c.us');
+  assert.equal(policies.historyKey(withoutAuthor), '120363000000000000@g.us');
+});
+
+test('tool lists restrict tools per group', () => {
+  const policies = new GroupPolicies({ defaults, groups: { 'book club': { tools: ['calculator'] } } });
+
+  assert.equal(policies.isToolAllowed(groupMessage(), 'calculator'), true);
+  assert.equal(policies.isToolAllowed(groupMessage(), 'weather'), false);
+  assert.equal(policies.isToolAllowed(groupMessage({ groupName: 'Other' }), 'weather'), true);
+});
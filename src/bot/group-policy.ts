@@ -0,0 +1,116 @@
+import { BotMessage } from '../types';
+import { memberHistoryKey } from '../services/history-store';
+
+/**
+ * When the bot answers in a group:
+ * - 'mention': only when @-mentioned, replied to, or a keyword matches
+ * - 'all': every message
+ * - 'off': never
+ *
+ * Commands follow the same rule, so a group only sees command replies when it
+ * would see chat replies.
+ */
+export type GroupReplyMode = 'mention' | 'all' | 'off';
+
+/**
+ * Whose history a group reply sees: the whole group's shared conversation,
+ * or only the sender's own thread within the group.
+ */
+export type GroupHistoryScope = 'group' | 'member';
+
+export interface GroupPolicy {
+  replyMode: GroupReplyMode;
+  /** Words that trigger a reply in 'mention' mode, matched case-insensitively */
+  keywords: string[];
+  historyScope: GroupHistoryScope;
+  /** Replaces the default system prompt in this group */
+  systemPrompt?: string;
+  /** Tool names usable in this group; all tools when omitted */
+  tools?: string[];
+}
+
+export interface GroupPolicyConfig {
+  defaults: GroupPolicy;
+  /** Overrides keyed by group id (e.g. 1203630...@g.us) or group name */
+  groups: Record<string, Partial<GroupPolicy>>;
+}
+
+export class GroupPolicies {
+  private config: GroupPolicyConfig;
+
+  constructor(config: GroupPolicyConfig) {
+    this.config = config;
+  }
+
+  /** Effective policy for a group message, or null for direct chats */
+  resolve(message: BotMessage): GroupPolicy | null {
+    if (!message.isGroup) {
+      return null;
+    }
+
+    const groupName = message.groupName?.toLowerCase();
+    const override = this.config.groups[message.from] ||
+      Object.entries(this.config.groups).find(([key]) => !!groupName && key.toLowerCase() === groupName)?.[1];
+
+    return { ...this.config.defaults, ...override };
+  }
+
+  shouldRespond(message: BotMessage): boolean {
+    const policy = this.resolve(message);
+    if (!policy) {
+      return true;
+    }
+
+    switch (policy.replyMode) {
+      case 'all':
+        return true;
+      case 'off':
+        return false;
+      default:
+        return !!message.mentionsBot || !!message.isReplyToBot || this.matchesKeyword(message.content, policy.keywords);
+    }
+  }
+
+  /**
+   * Whether a message without readable text yet (e.g. a voice note) could
+   * still trigger a reply once its content is known. Used to avoid
+   * transcribing group audio the bot would ignore anyway.
+   */
+  couldRespond(message: BotMessage): boolean {
+    const policy = this.resolve(message);
+    if (!policy) {
+      return true;
+    }
+
+    switch (policy.replyMode) {
+      case 'all':
+        return true;
+      case 'off':
+        return false;
+      default:
+        return !!message.mentionsBot || !!message.isReplyToBot || policy.keywords.length > 0;
+    }
+  }
+
+  /** Key under which the conversation history for this message is kept */
+  historyKey(message: BotMessage): string {
+    const policy = this.resolve(message);
+    if (policy?.historyScope === 'member' && message.author) {
+      return memberHistoryKey(message.from, message.author);
+    }
+    return message.from;
+  }
+
+  isToolAllowed(message: BotMessage, toolName: string): boolean {
+    const tools = this.resolve(message)?.tools;
+    return !tools || tools.includes(toolName);
+  }
+
+  private matchesKeyword(content: string, keywords: string[]): boolean {
+    const text = content.toLowerCase();
+    return keywords.some(keyword => {
+      const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|\\W)${escaped}(\\W|$)`).test(text);
+    });
+  }
+}
@@ -2,6 +2,7 @@ import { configManager } from './utils/config';
 import { ProviderSelector } from './utils/provider-selector';
 import { WhatsAppService } from './services/whatsapp';
 import { Chatbot } from './bot/chatbot';
+import { FallbackProvider, FallbackTarget } from './providers';
 import { logger } from './utils/logger';
 import { art } from './utils/console-art';
 
@@ -41,19 +42,66 @@ async function main() {
     // Initialize chatbot with selected provider and its specific configuration
     logger.provider(`Setting up ${selectedType} provider...`);
     const modelConfig = configManager.config.models[selectedType];
+    const { fallback } = configManager.config;
+    // Fallback providers are created with their own configured model unless the entry names one
+    const fallbackTargets: FallbackTarget[] = fallback.providers.map(entry => ({
+      provider: ProviderSelector.createProvider(entry.provider),
+      ...(entry.model && { model: entry.model })
+    }));
+    if (fallback.providers.length > 0) {
+      logger.provider(`Fallbacks: ${fallback.providers.map(entry => `${entry.provider} (${entry.model || configManager.config.models[entry.provider].model})`).join(', ')}`);
+    }
+    const llmProvider = new FallbackProvider([{ provider }, ...fallbackTargets], {
+      retryAttempts: fallback.retryAttempts,
+      retryDelayMs: fallback.retryDelayMs,
+      failureThreshold: fallback.failureThreshold,
+      cooldownMs: fallback.cooldownMs
+    });
     const chatbotConfig: any = {
-      llmProvider: provider,
+      llmProvider,
+      model: modelConfig.model,
+      ...(configManager.config.bot.summaryModel && { summaryModel: configManager.config.bot.summaryModel }),
       systemPrompt: configManager.config.bot.systemPrompt,
       maxTokens: modelConfig.maxTokens,
       temperature: modelConfig.temperature,
+      maxToolSteps: configManager.config.bot.maxToolSteps,
+      maxContextTokens: configManager.config.bot.maxContextTokens,
+      enableStreaming: configManager.config.bot.enableStreaming,
+      streamThrottleMs: configManager.config.bot.streamThrottleMs,
       enableLogging: configManager.config.bot.enableLogging,
-      rateLimit: configManager.config.bot.rateLimit,
+      admins: configManager.config.bot.admins,
+      quota: configManager.config.bot.quota.enabled ? {
+        tiers: {
+          user: configManager.config.bot.quota.user,
+          admin: configManager.config.bot.quota.admin
+        },
+        group: configManager.config.bot.quota.group
+      } : undefined,
       openaiApiKey: configManager.config.openai?.apiKey,
       enableRAG: configManager.config.features.enableRAG,
       enableVision: configManager.config.features.enableVision,
       enablePDF: configManager.config.features.enablePDF,
       enableMCP: configManager.config.features.enableMCP,
+      enableUserMemory: configManager.config.features.enableUserMemory,
+      transcription: configManager.config.transcription,
+      tts: configManager.config.tts,
       mcpServers: configManager.config.mcp?.servers,
+      mcpOptions: configManager.config.mcp && {
+        timeout: configManager.config.mcp.timeout,
+        retryAttempts: configManager.config.mcp.retryAttempts,
+        retryDelayMs: configManager.config.mcp.retryDelayMs,
+        namespaceTools: configManager.config.mcp.namespaceTools
+      },
+      groupPolicies: {
+        defaults: {
+          replyMode: configManager.config.groups.replyMode,
+          keywords: configManager.config.groups.keywords,
+          historyScope: configManager.config.groups.historyScope
+        },
+        groups: configManager.config.groups.policies
+      },
+      historyStore: configManager.config.history.store,
+      historyDir: configManager.config.history.directory,
       cacheConfig: {
         ttlSeconds: 3600, // 1 hour
         maxKeys: 1000
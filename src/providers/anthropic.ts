@@ -1,19 +1,18 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { BaseLLMProvider } from './base';
-import { LLMMessage, LLMResponse, LLMGenerationOptions, LLMContent } from '../types';
+import { BaseLLMProvider, LLMProviderError, classifyLLMError, parseRetryAfter } from './base';
+import { LLMMessage, LLMResponse, LLMGenerationOptions, LLMContent, LLMStreamCallback, LLMProviderConfig } from '../types';
 import { logger } from '../utils/logger';
 
 export class AnthropicProvider extends BaseLLMProvider {
   readonly name = 'anthropic';
   private client: Anthropic;
-  private readonly defaultModel = 'claude-sonnet-4-20250514';
-  private readonly defaultMaxTokens = 1000;
-  private readonly defaultTemperature = 0.7;
+  protected readonly defaultModel = 'claude-sonnet-4-20250514';
 
-  constructor(apiKey: string) {
-    super(apiKey);
+  constructor(config: LLMProviderConfig) {
+    super(config);
     this.client = new Anthropic({
       apiKey: this.apiKey,
+      ...(this.baseURL && { baseURL: this.baseURL })
     });
   }
 
@@ -23,52 +22,8 @@ export class AnthropicProvider extends BaseLLMProvider {
   ): Promise<LLMResponse> {
     this.validateMessages(messages);
 
-    const {
-      maxTokens = this.defaultMaxTokens,
-      temperature = this.defaultTemperature,
-      model = this.defaultModel,
-      systemPrompt,
-      tools,
-      toolChoice = 'auto'
-    } = options;
-
     try {
-      const anthropicMessages = this.convertMessages(messages, systemPrompt);
-      
-      const requestParams: any = {
-        model,
-        max_tokens: maxTokens,
-        temperature,
-        messages: anthropicMessages.messages,
-        ...(anthropicMessages.system && { system: anthropicMessages.system })
-      };
-
-      // Add tools if provided
-      if (tools && tools.length > 0) {
-        requestParams.tools = tools.map(tool => ({
-          name: tool.name,
-          description: tool.description,
-          input_schema: tool.parameters
-        }));
-        
-        logger.tool(`Sending ${tools.length} tools to Anthropic API`);
-        logger.debug(`Tool names: ${tools.map(t => t.name).join(', ')}`);
-        if (toolChoice !== 'auto') {
-          logger.debug(`Tool choice: ${toolChoice}`);
-        }
-
-        if (toolChoice !== 'auto') {
-          requestParams.tool_choice = toolChoice === 'none' ? { type: 'auto' } : { type: 'tool', name: toolChoice };
-        }
-      } else {
-        logger.debug('No tools provided to Anthropic API');
-      }
-
-      logger.provider(`API Request: ${requestParams.model} | ${requestParams.tools?.length || 0} tools | ${requestParams.messages?.length || 0} messages`);
-      if (requestParams.system?.length) {
-        logger.debug(`System prompt: ${requestParams.system.length} chars`);
-      }
-      
+      const requestParams = this.buildRequestParams(messages, options);
       const response = await this.client.messages.create(requestParams);
       
       const toolUseBlocks = response.content.filter(block => block.type === 'tool_use').length;
@@ -77,10 +32,108 @@ export class AnthropicProvider extends BaseLLMProvider {
 
       return this.parseResponse(response);
     } catch (error) {
-      throw new Error(`Anthropic API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.wrapError(error);
     }
   }
 
+  async streamResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions = {},
+    onText: LLMStreamCallback
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
+
+    try {
+      const requestParams = this.buildRequestParams(messages, options);
+      const stream = this.client.messages.stream(requestParams);
+
+      stream.on('text', (delta, snapshot) => onText(delta, snapshot));
+
+      const response = await stream.finalMessage();
+      logger.provider(`API Stream complete: ${response.usage.output_tokens} output tokens`);
+
+      return this.parseResponse(response);
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  private wrapError(error: unknown): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+
+    if (error instanceof Anthropic.APIError) {
+      // The body looks like { type: 'error', error: { type: 'overloaded_error', message } }
+      const body = error.error as { error?: { type?: string; message?: string } } | undefined;
+      const message = body?.error?.message || error.message;
+      const retryAfterMs = parseRetryAfter(error.headers?.get('retry-after'));
+      const kind = body?.error?.type === 'overloaded_error'
+        ? 'overloaded'
+        : error instanceof Anthropic.APIConnectionTimeoutError
+          ? 'timeout'
+          : error instanceof Anthropic.APIConnectionError
+            ? 'network'
+            : classifyLLMError(error.status, undefined, message);
+
+      return new LLMProviderError(this.name, `Anthropic API error: ${message}`, {
+        kind,
+        ...(error.status !== undefined && { status: error.status }),
+        ...(retryAfterMs !== undefined && { retryAfterMs }),
+        cause: error
+      });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new LLMProviderError(this.name, `Anthropic API error: ${message}`, {
+      kind: classifyLLMError(undefined, (error as any)?.code, message),
+      cause: error
+    });
+  }
+
+  private buildRequestParams(messages: LLMMessage[], options: LLMGenerationOptions): any {
+    const { systemPrompt, tools, toolChoice = 'auto' } = options;
+    const { model, maxTokens, temperature } = this.resolveSettings(options);
+
+    const anthropicMessages = this.convertMessages(messages, systemPrompt);
+    
+    const requestParams: any = {
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      messages: anthropicMessages.messages,
+      ...(anthropicMessages.system && { system: anthropicMessages.system })
+    };
+
+    // Add tools if provided
+    if (tools && tools.length > 0) {
+      requestParams.tools = tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      }));
+      
+      logger.tool(`Sending ${tools.length} tools to Anthropic API`);
+      logger.debug(`Tool names: ${tools.map(t => t.name).join(', ')}`);
+      if (toolChoice !== 'auto') {
+        logger.debug(`Tool choice: ${toolChoice}`);
+      }
+
+      if (toolChoice !== 'auto') {
+        requestParams.tool_choice = toolChoice === 'none' ? { type: 'none' } : { type: 'tool', name: toolChoice };
+      }
+    } else {
+      logger.debug('No tools provided to Anthropic API');
+    }
+
+    logger.provider(`API Request: ${requestParams.model} | ${requestParams.tools?.length || 0} tools | ${requestParams.messages?.length || 0} messages`);
+    if (requestParams.system?.length) {
+      logger.debug(`System prompt: ${requestParams.system.length} chars`);
+    }
+
+    return requestParams;
+  }
+
   private convertMessages(messages: LLMMessage[], systemPrompt?: string): {
     messages: Array<{ role: 'user' | 'assistant'; content: any }>;
     system?: string;
@@ -138,6 +191,20 @@ export class AnthropicProvider extends BaseLLMProvider {
             data: block.source.data
           }
         };
+      } else if (block.type === 'tool_use') {
+        return {
+          type: 'tool_use',
+          id: block.id,
+          name: block.name,
+          input: block.input ?? {}
+        };
+      } else if (block.type === 'tool_result') {
+        return {
+          type: 'tool_result',
+          tool_use_id: block.tool_use_id,
+          content: block.content,
+          ...(block.is_error && { is_error: true })
+        };
       }
       return block;
     });
@@ -153,6 +220,8 @@ export class AnthropicProvider extends BaseLLMProvider {
 
     const result: LLMResponse = {
       content,
+      model: response.model,
+      stopReason: this.mapStopReason(response.stop_reason),
       usage: {
         inputTokens: response.usage.input_tokens,
         outputTokens: response.usage.output_tokens,
@@ -174,4 +243,16 @@ export class AnthropicProvider extends BaseLLMProvider {
 
     return result;
   }
+
+  private mapStopReason(stopReason: string | null): NonNullable<LLMResponse['stopReason']> {
+    switch (stopReason) {
+      case 'end_turn':
+      case 'tool_use':
+      case 'max_tokens':
+      case 'stop_sequence':
+        return stopReason;
+      default:
+        return 'other';
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyLLMError, parseRetryAfter, LLMProviderError } from './base';
+
+test('classifyLLMError reads context-length and moderation errors from the message', () => {
+  assert.equal(classifyLLMError(400, undefined, 'prompt is too long: 210000 tokens > 200000 maximum'), 'context_length_exceeded');
+  assert.equal(classifyLLMError(413, undefined, 'Request too large'), 'context_length_exceeded');
+  assert.equal(classifyLLMError(400, undefined, "This model's maximum context length is 8192 tokens"), 'context_length_exceeded');
+  assert.equal(classifyLLMError(403, undefined, 'Output flagged by content moderation'), 'content_filtered');
+});
+
+test('classifyLLMError maps HTTP statuses', () => {
+  assert.equal(classifyLLMError(429, undefined, 'Too many requests'), 'rate_limited');
+  assert.equal(classifyLLMError(401, undefined, 'Invalid API key'), 'auth');
+  assert.equal(classifyLLMError(402, undefined, 'Insufficient credits'), 'auth');
+  assert.equal(classifyLLMError(504, undefined, 'Gateway timeout'), 'timeout');
+  assert.equal(classifyLLMError(529, undefined, 'Overloaded'), 'overloaded');
+  assert.equal(classifyLLMError(404, undefined, 'Model not found'), 'invalid_request');
+});
+
+test('classifyLLMError falls back to error codes and wording without a status', () => {
+  assert.equal(classifyLLMError(undefined, 'ECONNABORTED', 'aborted'), 'timeout');
+  assert.equal(classifyLLMError(undefined, 'ECONNRESET', 'reset'), 'network');
+  assert.equal(classifyLLMError(undefined, undefined, 'socket hang up'), 'network');
+  assert.equal(classifyLLMError(undefined, undefined, 'Request timed out'), 'timeout');
+  assert.equal(classifyLLMError(undefined, undefined, 'Something odd happened'), 'unknown');
+});
+
+test('LLMProviderError is retryable only for transient kinds', () => {
+  assert.equal(new LLMProviderError('test', 'slow down', { kind: 'rate_limited', status: 429 }).retryable, true);
+  assert.equal(new LLMProviderError('test', 'no key', { kind: 'auth', status: 401 }).retryable, false);
+});
+
+test('parseRetryAfter accepts delay seconds and HTTP dates', () => {
+  assert.equal(parseRetryAfter('2'), 2000);
+  assert.equal(parseRetryAfter('0'), 0);
+  assert.equal(parseRetryAfter(undefined), undefined);
+  assert.equal(parseRetryAfter('not a date'), undefined);
+  assert.equal(parseRetryAfter('Thu, 01 Jan 1970 00:00:00 GMT'), 0);
+
+  const inAMinute = parseRetryAfter(new Date(Date.now() + 60000).toUTCString())!;
+  assert.ok(inAMinute > 55000 && inAMinute <= 60000);
+});
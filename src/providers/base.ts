@@ -1,22 +1,166 @@
-import { LLMProvider, LLMMessage, LLMResponse, LLMGenerationOptions, LLMContent } from '../types';
+import { LLMProvider, LLMProviderConfig, LLMMessage, LLMResponse, LLMGenerationOptions, LLMContent, LLMStreamCallback } from '../types';
+
+/**
+ * Why an LLM request failed, independent of the provider that served it.
+ * 'invalid_request' and 'unknown' cover everything the other kinds do not.
+ */
+export type LLMErrorKind =
+  | 'rate_limited'
+  | 'overloaded'
+  | 'auth'
+  | 'context_length_exceeded'
+  | 'content_filtered'
+  | 'timeout'
+  | 'network'
+  | 'invalid_request'
+  | 'unknown';
+
+export interface LLMErrorDetails {
+  kind: LLMErrorKind;
+  /** HTTP status of the failed request, when there was a response */
+  status?: number;
+  /** How long the provider asked us to wait before retrying */
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limited', 'overloaded', 'timeout', 'network'];
+const TIMEOUT_CODES = ['ETIMEDOUT', 'ECONNABORTED', 'ESOCKETTIMEDOUT'];
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ERR_NETWORK'];
+
+export class LLMProviderError extends Error {
+  readonly provider: string;
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(provider: string, message: string, details: LLMErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.kind = details.kind;
+    if (details.status !== undefined) {
+      this.status = details.status;
+    }
+    if (details.retryAfterMs !== undefined) {
+      this.retryAfterMs = details.retryAfterMs;
+    }
+  }
+
+  /** Whether the same request may succeed if sent again later */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Map what is known about a failure to an error kind. The message is checked
+ * first because context-length and moderation errors arrive as plain 400s
+ * or 403s that only their wording tells apart.
+ */
+export function classifyLLMError(status: number | undefined, code: string | undefined, message: string): LLMErrorKind {
+  if (status === 413 || /context (length|window)|maximum context|prompt is too long|too many tokens|input length and `?max_tokens`? exceed/i.test(message)) {
+    return 'context_length_exceeded';
+  }
+  if (/content (filter|policy|management)|moderation|flagged/i.test(message)) {
+    return 'content_filtered';
+  }
+
+  if (status !== undefined) {
+    if (status === 429) return 'rate_limited';
+    if (status === 401 || status === 402 || status === 403) return 'auth';
+    if (status === 408 || status === 504) return 'timeout';
+    if (status >= 500) return 'overloaded';
+    if (status >= 400) return 'invalid_request';
+  }
+
+  if (/overloaded/i.test(message)) return 'overloaded';
+  if ((code && TIMEOUT_CODES.includes(code)) || /timed? ?out/i.test(message)) return 'timeout';
+  if ((code && NETWORK_CODES.includes(code)) || /connection error|socket hang up|network/i.test(message)) return 'network';
+  return 'unknown';
+}
+
+/**
+ * Parse a Retry-After header: delay seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Model, max tokens and temperature a single request is sent with */
+export interface ResolvedGenerationSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+const DEFAULT_MAX_TOKENS = 1000;
+const DEFAULT_TEMPERATURE = 0.7;
 
 export abstract class BaseLLMProvider implements LLMProvider {
   abstract readonly name: string;
+  /** Model used when neither the request nor the provider configuration names one */
+  protected abstract readonly defaultModel: string;
   protected readonly apiKey: string;
   protected readonly baseURL?: string;
+  protected readonly config: LLMProviderConfig;
 
-  constructor(apiKey: string, baseURL?: string) {
-    this.apiKey = apiKey;
-    if (baseURL) {
-      this.baseURL = baseURL;
+  constructor(config: LLMProviderConfig) {
+    this.config = config;
+    this.apiKey = config.apiKey;
+    if (config.baseURL) {
+      this.baseURL = config.baseURL;
     }
   }
 
+  /** The model requests are sent to unless they name another */
+  get model(): string {
+    return this.config.model || this.defaultModel;
+  }
+
+  /**
+   * Settings for one request: per-request options take precedence over the
+   * provider configuration, which takes precedence over built-in defaults.
+   */
+  protected resolveSettings(options: LLMGenerationOptions): ResolvedGenerationSettings {
+    return {
+      model: options.model || this.model,
+      maxTokens: options.maxTokens ?? this.config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature ?? this.config.temperature ?? DEFAULT_TEMPERATURE
+    };
+  }
+
   abstract generateResponse(
     messages: LLMMessage[], 
     options?: LLMGenerationOptions
   ): Promise<LLMResponse>;
 
+  /**
+   * Stream the response text as it is generated. Providers without native
+   * streaming fall back to a single callback with the complete text.
+   */
+  async streamResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions | undefined,
+    onText: LLMStreamCallback
+  ): Promise<LLMResponse> {
+    const response = await this.generateResponse(messages, options);
+    if (response.content) {
+      onText(response.content, response.content);
+    }
+    return response;
+  }
+
   protected validateMessages(messages: LLMMessage[]): void {
     if (!messages || messages.length === 0) {
       throw new Error('Messages array cannot be empty');
@@ -38,7 +182,7 @@ export abstract class BaseLLMProvider implements LLMProvider {
 
       if (Array.isArray(message.content)) {
         for (const block of message.content) {
-          if (!block.type || !['text', 'image'].includes(block.type)) {
+          if (!block.type || !['text', 'image', 'tool_use', 'tool_result'].includes(block.type)) {
             throw new Error('Invalid content block type');
           }
         }
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FallbackProvider } from './fallback';
+import { LLMProviderError } from './base';
+import { LLMProvider, LLMGenerationOptions, LLMResponse } from '../types';
+
+/** Provider that plays back a script of errors and answers, recording every call */
+class ScriptedProvider implements LLMProvider {
+  readonly calls: Array<LLMGenerationOptions | undefined> = [];
+
+  constructor(readonly name: string, private script: Array<Error | string>) {}
+
+  async generateResponse(_messages: unknown, options?: LLMGenerationOptions): Promise<LLMResponse> {
+    this.calls.push(options);
+    const next = this.script.length > 1 ? this.script.shift()! : this.script[0]!;
+    if (next instanceof Error) {
+      throw next;
+    }
+    return { content: next };
+  }
+
+  async streamResponse(messages: unknown, options: LLMGenerationOptions | undefined): Promise<LLMResponse> {
+    return await this.generateResponse(messages, options);
+  }
+}
+
+const rateLimited = () => new LLMProviderError('primary', 'rate limited', { kind: 'rate_limited', status: 429 });
+const unauthorized = () => new LLMProviderError('primary', 'bad key', { kind: 'auth', status: 401 });
+const badRequest = () => new LLMProviderError('primary', 'bad request', { kind: 'invalid_request', status: 400 });
+
+const fastOptions = { retryAttempts: 2, retryDelayMs: 1, maxRetryDelayMs: 5, failureThreshold: 2, cooldownMs: 60000 };
+
+test('transient errors are retried on the same provider', async () => {
+  const primary = new ScriptedProvider('primary', [rateLimited(), 'recovered']);
+  const fallback = new FallbackProvider([{ provider: primary }], fastOptions);
+
+  const response = await fallback.generateResponse([]);
+
+  assert.equal(response.content, 'recovered');
+  assert.equal(response.provider, 'primary');
+  assert.equal(primary.calls.length, 2);
+});
+
+test('provider errors fail over without retrying and swap in the fallback model', async () => {
+  const primary = new ScriptedProvider('primary', [unauthorized()]);
+  const secondary = new ScriptedProvider('secondary', ['from secondary']);
+  const fallback = new FallbackProvider([{ provider: primary }, { provider: secondary, model: 'backup-model' }], fastOptions);
+
+  const response = await fallback.generateResponse([], { model: 'primary-model', maxTokens: 50 });
+
+  assert.equal(response.content, 'from secondary');
+  assert.equal(response.provider, 'secondary');
+  assert.equal(primary.calls.length, 1);
+  assert.deepEqual(primary.calls[0], { model: 'primary-model', maxTokens: 50 });
+  assert.deepEqual(secondary.calls[0], { model: 'backup-model', maxTokens: 50 });
+});
+
+test('errors in the request itself are thrown without failing over', async () => {
+  const primary = new ScriptedProvider('primary', [badRequest()]);
+  const secondary = new ScriptedProvider('secondary', ['unused']);
+  const fallback = new FallbackProvider([{ provider: primary }, { provider: secondary }], fastOptions);
+
+  await assert.rejects(fallback.generateResponse([]), /bad request/);
+  assert.equal(secondary.calls.length, 0);
+});
+
+test('the circuit opens after repeated failures and skips the provider', async () => {
+  const primary = new ScriptedProvider('primary', [unauthorized()]);
+  const secondary = new ScriptedProvider('secondary', ['from secondary']);
+  const fallback = new FallbackProvider([{ provider: primary }, { provider: secondary }], fastOptions);
+
+  await fallback.generateResponse([]);
+  await fallback.generateResponse([]);
+  assert.equal(fallback.getStatus()[0]!.state, 'open');
+  assert.ok(fallback.getStatus()[0]!.retryAt instanceof Date);
+
+  await fallback.generateResponse([]);
+  assert.equal(primary.calls.length, 2);
+  assert.equal(secondary.calls.length, 3);
+});
+
+test('a half-open circuit closes again after a successful trial', async () => {
+  const primary = new ScriptedProvider('primary', [unauthorized(), 'back again']);
+  const secondary = new ScriptedProvider('secondary', ['from secondary']);
+  const fallback = new FallbackProvider([{ provider: primary }, { provider: secondary }], { ...fastOptions, failureThreshold: 1, cooldownMs: 0 });
+
+  await fallback.generateResponse([]);
+  assert.equal(fallback.getStatus()[0]!.state, 'half-open');
+
+  const response = await fallback.generateResponse([]);
+  assert.equal(response.content, 'back again');
+  assert.equal(fallback.getStatus()[0]!.state, 'closed');
+});
@@ -0,0 +1,210 @@
+import { LLMProvider, LLMMessage, LLMResponse, LLMGenerationOptions, LLMStreamCallback } from '../types';
+import { LLMProviderError } from './base';
+import { logger } from '../utils/logger';
+
+export interface FallbackTarget {
+  provider: LLMProvider;
+  /** Model used with this provider; the request's model is only kept for the first target */
+  model?: string;
+}
+
+export interface FallbackOptions {
+  /** Extra attempts per target on transient errors before moving to the next one */
+  retryAttempts: number;
+  /** Initial retry delay, doubled per attempt */
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  /** Consecutive failures that open a target's circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips its target before trying it again */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface FallbackTargetStatus {
+  provider: string;
+  model?: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When an open circuit lets a trial request through again */
+  retryAt?: Date;
+}
+
+/**
+ * How a failed request is handled:
+ * - 'transient': retried with backoff, then failed over (rate limits, overload, 5xx, network)
+ * - 'provider': failed over without retrying (auth, unknown model, malformed responses)
+ * - 'request': thrown to the caller, since every provider would reject it
+ */
+type FailureKind = 'transient' | 'provider' | 'request';
+
+interface TargetState extends FallbackTarget {
+  consecutiveFailures: number;
+  openedAt: number | null;
+}
+
+const DEFAULT_OPTIONS: FallbackOptions = {
+  retryAttempts: 2,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 10000,
+  failureThreshold: 3,
+  cooldownMs: 60000
+};
+
+/**
+ * An LLMProvider that tries an ordered chain of providers. Transient errors
+ * are retried with exponential backoff before failing over to the next
+ * provider, and each provider has a circuit breaker so one that keeps
+ * failing is skipped until its cooldown has passed. It takes the name of
+ * the primary provider; responses report the provider that actually answered.
+ */
+export class FallbackProvider implements LLMProvider {
+  readonly name: string;
+  private targets: TargetState[];
+  private options: FallbackOptions;
+
+  constructor(targets: FallbackTarget[], options: Partial<FallbackOptions> = {}) {
+    if (targets.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+
+    this.targets = targets.map(target => ({ ...target, consecutiveFailures: 0, openedAt: null }));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.name = targets[0]!.provider.name;
+  }
+
+  /** Same fallbacks and options behind a different primary provider */
+  withPrimary(provider: LLMProvider): FallbackProvider {
+    return new FallbackProvider([{ provider }, ...this.targets.slice(1).map(({ provider, model }) => ({ provider, ...(model && { model }) }))], this.options);
+  }
+
+  async generateResponse(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<LLMResponse> {
+    return await this.run(options, (target, targetOptions) => target.provider.generateResponse(messages, targetOptions));
+  }
+
+  async streamResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions | undefined,
+    onText: LLMStreamCallback
+  ): Promise<LLMResponse> {
+    // A provider that fails mid-stream is replaced by the next one's full
+    // snapshot, so partially streamed text is overwritten rather than mixed
+    return await this.run(options, (target, targetOptions) => target.provider.streamResponse(messages, targetOptions, onText));
+  }
+
+  getStatus(): FallbackTargetStatus[] {
+    return this.targets.map(target => {
+      const state = this.getCircuitState(target);
+      return {
+        provider: target.provider.name,
+        ...(target.model && { model: target.model }),
+        state,
+        consecutiveFailures: target.consecutiveFailures,
+        ...(state === 'open' && target.openedAt !== null && { retryAt: new Date(target.openedAt + this.options.cooldownMs) })
+      };
+    });
+  }
+
+  private async run(
+    options: LLMGenerationOptions | undefined,
+    call: (target: TargetState, options: LLMGenerationOptions) => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const available = this.targets.filter(target => this.getCircuitState(target) !== 'open');
+    // With every circuit open, trying anyway beats refusing outright
+    const candidates = available.length > 0 ? available : this.targets;
+    let lastError: unknown;
+
+    for (const target of candidates) {
+      const isPrimary = target === this.targets[0];
+      const { model: requestedModel, ...rest } = options || {};
+      const model = target.model ?? (isPrimary ? requestedModel : undefined);
+      const targetOptions: LLMGenerationOptions = { ...rest, ...(model && { model }) };
+      // A half-open circuit gets a single trial request
+      const attempts = this.getCircuitState(target) === 'half-open' ? 1 : this.options.retryAttempts + 1;
+
+      for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+          const response = await call(target, targetOptions);
+          this.recordSuccess(target);
+          if (target !== this.targets[0]) {
+            logger.provider(`Answered by fallback provider ${target.provider.name}${model ? ` (${model})` : ''}`);
+          }
+          return { ...response, provider: response.provider || target.provider.name };
+        } catch (error) {
+          lastError = error;
+          const kind = this.classify(error);
+          const message = error instanceof Error ? error.message : String(error);
+
+          if (kind === 'request') {
+            throw error;
+          }
+
+          // A provider asking for a longer wait than we would retry after is skipped instead
+          const retryAfterMs = error instanceof LLMProviderError ? error.retryAfterMs : undefined;
+          if (kind === 'transient' && attempt < attempts && (retryAfterMs ?? 0) <= this.options.maxRetryDelayMs) {
+            const delay = Math.max(this.getRetryDelay(attempt), retryAfterMs ?? 0);
+            logger.warning(`${target.provider.name} failed (${message}), retrying in ${delay}ms (${attempt}/${attempts - 1})`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            continue;
+          }
+
+          this.recordFailure(target);
+          logger.warning(`${target.provider.name} failed (${message})${target !== candidates[candidates.length - 1] ? ', failing over' : ''}`);
+          break;
+        }
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('All LLM providers failed');
+  }
+
+  private getCircuitState(target: TargetState): CircuitState {
+    if (target.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - target.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  private recordSuccess(target: TargetState): void {
+    if (target.openedAt !== null) {
+      logger.success(`${target.provider.name} recovered, circuit closed`);
+    }
+    target.consecutiveFailures = 0;
+    target.openedAt = null;
+  }
+
+  private recordFailure(target: TargetState): void {
+    target.consecutiveFailures++;
+
+    const wasHalfOpen = this.getCircuitState(target) === 'half-open';
+    if (wasHalfOpen || target.consecutiveFailures >= this.options.failureThreshold) {
+      target.openedAt = Date.now();
+      logger.warning(`Circuit opened for ${target.provider.name} after ${target.consecutiveFailures} failures; skipping it for ${Math.round(this.options.cooldownMs / 1000)}s`);
+    }
+  }
+
+  private getRetryDelay(attempt: number): number {
+    const delay = Math.min(this.options.retryDelayMs * 2 ** (attempt - 1), this.options.maxRetryDelayMs);
+    // Jitter keeps concurrent chats from retrying in lockstep
+    return Math.round(delay * (0.75 + Math.random() * 0.5));
+  }
+
+  /**
+   * Retryable provider errors are transient; auth problems, unknown models
+   * and unrecognised errors are specific to one provider. What is wrong
+   * with the request itself would fail everywhere.
+   */
+  private classify(error: unknown): FailureKind {
+    if (!(error instanceof LLMProviderError)) {
+      return 'provider';
+    }
+    if (error.retryable) {
+      return 'transient';
+    }
+    if (error.kind === 'auth' || error.kind === 'unknown' || error.status === 404) {
+      return 'provider';
+    }
+    return 'request';
+  }
+}
@@ -1,3 +1,10 @@
 export { AnthropicProvider } from './anthropic';
 export { OpenRouterProvider } from './openrouter';
-export { BaseLLMProvider } from './base';
\ No newline at end of file
+export { OpenAIProvider } from './openai';
+export type { OpenAIProviderConfig, OpenAIApiMode } from './openai';
+export { LocalProvider } from './local';
+export type { LocalProviderConfig, LocalToolMode } from './local';
+export { BaseLLMProvider, LLMProviderError, classifyLLMError } from './base';
+export type { LLMErrorKind, LLMErrorDetails } from './base';
+export { FallbackProvider } from './fallback';
+export type { FallbackTarget, FallbackOptions, FallbackTargetStatus, CircuitState } from './fallback';
@@ -0,0 +1,254 @@
+import axios, { AxiosInstance } from 'axios';
+import { Readable } from 'stream';
+import { BaseLLMProvider, LLMProviderError, classifyLLMError } from './base';
+import { toOpenAIMessages, toOpenAITools, toOpenAIToolChoice, parseChatCompletion, readChatCompletionStream, readErrorBody } from './openai-format';
+import { LLMMessage, LLMResponse, LLMGenerationOptions, LLMContentBlock, LLMStreamCallback, LLMProviderConfig } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * How tools are offered to the model:
+ * - 'auto': native function calling, dropped for models that turn out not to support it
+ * - 'native': always native function calling
+ * - 'none': never offer tools
+ */
+export type LocalToolMode = 'auto' | 'native' | 'none';
+
+export interface LocalProviderConfig extends LLMProviderConfig {
+  /** OpenAI-compatible API root, e.g. http://localhost:11434/v1 for Ollama */
+  baseURL: string;
+  toolMode: LocalToolMode;
+  timeoutMs: number;
+}
+
+/** What Ollama, llama.cpp and vLLM answer when the model or server cannot do function calling */
+const TOOLS_UNSUPPORTED = /does not support tools|not support(ed)? (tools|tool calling|function calling)|tools param requires|tool choice requires|--enable-auto-tool-choice|--jinja/i;
+
+const NO_TOOLS_NOTE = '\n\nNo tools are available in this conversation. Answer directly from your own knowledge and say so when you cannot.';
+
+/**
+ * Talks to a self-hosted model through an OpenAI-compatible chat completions
+ * endpoint (Ollama, llama.cpp server, vLLM, LM Studio), so the bot can run
+ * without any cloud API.
+ */
+export class LocalProvider extends BaseLLMProvider {
+  readonly name = 'local';
+  private client: AxiosInstance;
+  protected readonly defaultModel = 'llama3.1';
+  private options: LocalProviderConfig;
+  /** Models found to lack function calling; they are served without tools from then on */
+  private modelsWithoutTools = new Set<string>();
+
+  constructor(options: LocalProviderConfig) {
+    super(options);
+    this.options = options;
+    this.client = axios.create({
+      baseURL: options.baseURL,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { 'Authorization': `Bearer ${options.apiKey}` })
+      },
+      timeout: options.timeoutMs
+    });
+  }
+
+  async generateResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions = {}
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
+
+    return await this.send(messages, options, false, async body => {
+      const response = await this.client.post('/chat/completions', body);
+      return response.data;
+    });
+  }
+
+  async streamResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions = {},
+    onText: LLMStreamCallback
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
+
+    return await this.send(messages, options, true, async body => {
+      const response = await this.client.post<Readable>('/chat/completions', body, {
+        responseType: 'stream'
+      });
+      return await readChatCompletionStream(response.data, onText, error => this.createError(error));
+    });
+  }
+
+  /**
+   * Send the request, and when the model turns out not to support tools
+   * (in 'auto' mode), remember that and send it again without them.
+   */
+  private async send(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions,
+    stream: boolean,
+    post: (body: any) => Promise<any>
+  ): Promise<LLMResponse> {
+    const { model } = this.resolveSettings(options);
+    const useTools = this.canUseTools(model) && !!options.tools?.length;
+
+    try {
+      const completion = await post(this.buildRequestBody(messages, options, model, useTools, stream));
+      return this.parseCompletion(completion, useTools ? options : {});
+    } catch (error) {
+      const wrapped = await this.wrapError(error);
+      if (!useTools || this.options.toolMode !== 'auto' || !TOOLS_UNSUPPORTED.test(wrapped.message)) {
+        throw wrapped;
+      }
+
+      logger.warning(`${model} does not support tool calling; answering without tools from now on`);
+      this.modelsWithoutTools.add(model);
+
+      try {
+        return this.parseCompletion(await post(this.buildRequestBody(messages, options, model, false, stream)), {});
+      } catch (retryError) {
+        throw await this.wrapError(retryError);
+      }
+    }
+  }
+
+  private canUseTools(model: string): boolean {
+    return this.options.toolMode !== 'none' && !this.modelsWithoutTools.has(model);
+  }
+
+  private buildRequestBody(messages: LLMMessage[], options: LLMGenerationOptions, model: string, useTools: boolean, stream: boolean): any {
+    const { systemPrompt, tools, toolChoice = 'auto' } = options;
+    const { maxTokens, temperature } = this.resolveSettings(options);
+
+    // Without tools the prompt must not contain tool calls the server cannot represent
+    const degraded = !useTools && !!tools?.length;
+    const requestBody: any = {
+      model,
+      messages: toOpenAIMessages(
+        degraded ? this.flattenToolBlocks(messages) : messages,
+        degraded && systemPrompt ? systemPrompt + NO_TOOLS_NOTE : systemPrompt
+      ),
+      max_tokens: maxTokens,
+      temperature,
+      stream
+    };
+
+    if (stream) {
+      requestBody.stream_options = { include_usage: true };
+    }
+
+    if (useTools && tools) {
+      requestBody.tools = toOpenAITools(tools);
+      requestBody.tool_choice = toOpenAIToolChoice(toolChoice);
+    }
+
+    return requestBody;
+  }
+
+  /**
+   * Rewrite earlier tool calls and their results as plain text, for models
+   * that are served without tools.
+   */
+  private flattenToolBlocks(messages: LLMMessage[]): LLMMessage[] {
+    const toolNames = new Map<string, string>();
+
+    return messages.map(message => {
+      if (typeof message.content === 'string') {
+        return message;
+      }
+
+      const content: LLMContentBlock[] = message.content.map(block => {
+        if (block.type === 'tool_use') {
+          toolNames.set(block.id, block.name);
+          return { type: 'text', text: `[Called ${block.name} with ${JSON.stringify(block.input ?? {})}]` };
+        }
+        if (block.type === 'tool_result') {
+          return { type: 'text', text: `[Result of ${toolNames.get(block.tool_use_id) || 'tool'}: ${block.content}]` };
+        }
+        return block;
+      });
+
+      return { ...message, content };
+    });
+  }
+
+  /**
+   * Parse the completion. Some model templates leave tool calls in the text
+   * (Hermes/Qwen style <tool_call> tags or a bare JSON object) instead of
+   * the tool_calls field; those are translated for tools that were offered.
+   */
+  private parseCompletion(completion: any, options: LLMGenerationOptions): LLMResponse {
+    const response = parseChatCompletion(completion, 'local model');
+    const toolNames = new Set((options.tools || []).map(tool => tool.name));
+    if (toolNames.size === 0 || options.toolChoice === 'none' || response.toolCalls?.length) {
+      return response;
+    }
+
+    const candidates = [...response.content.matchAll(/<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g)].map(match => match[1]!);
+    if (candidates.length === 0 && /^\s*\{[\s\S]*\}\s*$/.test(response.content)) {
+      candidates.push(response.content);
+    }
+
+    const toolCalls: NonNullable<LLMResponse['toolCalls']> = [];
+    for (const candidate of candidates) {
+      try {
+        const call = JSON.parse(candidate);
+        if (typeof call?.name === 'string' && toolNames.has(call.name)) {
+          toolCalls.push({
+            id: `call_${toolCalls.length}_${Date.now()}`,
+            name: call.name,
+            parameters: call.arguments ?? call.parameters ?? {}
+          });
+        }
+      } catch {
+        // Not a tool call after all
+      }
+    }
+
+    if (toolCalls.length === 0) {
+      return response;
+    }
+
+    logger.debug(`Translated ${toolCalls.length} tool calls from the model's text output`);
+    return {
+      ...response,
+      content: response.content.replace(/<tool_call>[\s\S]*?<\/tool_call>/g, '').trim().replace(/^\{[\s\S]*\}$/, ''),
+      toolCalls,
+      stopReason: 'tool_use'
+    };
+  }
+
+  private async wrapError(error: unknown): Promise<LLMProviderError> {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      let data = error.response?.data;
+      // Streaming requests get the error body as a stream too
+      if (data instanceof Readable) {
+        data = await readErrorBody(data);
+      }
+
+      // Ollama and vLLM use { error: { message } } or { error: "..." }; some servers send { detail }
+      const detail = typeof data?.error === 'string' ? data.error : data?.error?.message || data?.detail || data?.message;
+      return this.createError({ message: detail || error.message, ...(error.code && { code: error.code }) }, error.response?.status, error);
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new LLMProviderError(this.name, `Local LLM error: ${message}`, {
+      kind: classifyLLMError(undefined, undefined, message),
+      cause: error
+    });
+  }
+
+  private createError(body: any, status?: number, cause?: unknown): LLMProviderError {
+    const message = String(body?.message || 'Unknown error');
+    const code = typeof body?.code === 'string' ? body.code : undefined;
+
+    return new LLMProviderError(this.name, `Local LLM error: ${message}`, {
+      kind: classifyLLMError(status, code, message),
+      ...(status !== undefined && { status }),
+      cause: cause ?? body
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseChatCompletion, toOpenAIMessages, toOpenAIToolChoice } from './openai-format';
+
+test('toOpenAIMessages puts the system prompt first and replaces system messages', () => {
+  const converted = toOpenAIMessages([
+    { role: 'system', content: 'ignored' },
+    { role: 'user', content: 'hi' }
+  ], 'be brief');
+
+  assert.deepEqual(converted, [
+    { role: 'system', content: 'be brief' },
+    { role: 'user', content: 'hi' }
+  ]);
+});
+
+test('toOpenAIMessages maps tool use and tool results onto tool calls', () => {
+  const converted = toOpenAIMessages([
+    {
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Oslo' } }
+      ]
+    },
+    {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' }]
+    }
+  ]);
+
+  assert.deepEqual(converted, [
+    {
+      role: 'assistant',
+      content: 'Let me check.',
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }]
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' }
+  ]);
+});
+
+test('toOpenAIMessages turns images into data URLs', () => {
+  const [converted] = toOpenAIMessages([
+    {
+      role: 'user',
+      content: [
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+        { type: 'text', text: 'What is this?' }
+      ]
+    }
+  ]);
+
+  assert.deepEqual(converted.content, [
+    { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+    { type: 'text', text: 'What is this?' }
+  ]);
+});
+
+test('toOpenAIToolChoice names a specific function', () => {
+  assert.equal(toOpenAIToolChoice('auto'), 'auto');
+  assert.deepEqual(toOpenAIToolChoice('weather'), { type: 'function', function: { name: 'weather' } });
+});
+
+test('parseChatCompletion reads content, usage, model and stop reason', () => {
+  const response = parseChatCompletion({
+    model: 'gpt-4o-mini',
+    choices: [{ message: { content: 'Hello' }, finish_reason: 'length' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+  }, 'OpenAI');
+
+  assert.deepEqual(response, {
+    content: 'Hello',
+    model: 'gpt-4o-mini',
+    stopReason: 'max_tokens',
+    usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 }
+  });
+});
+
+test('parseChatCompletion tolerates object and malformed tool arguments', () => {
+  const response = parseChatCompletion({
+    choices: [{
+      message: {
+        content: null,
+        tool_calls: [
+          { id: 'a', function: { name: 'weather', arguments: { city: 'Oslo' } } },
+          { id: 'b', function: { name: 'calculator', arguments: '{"expression": ' } }
+        ]
+      },
+      finish_reason: 'tool_calls'
+    }]
+  }, 'OpenAI');
+
+  assert.equal(response.content, '');
+  assert.equal(response.stopReason, 'tool_use');
+  assert.deepEqual(response.toolCalls, [
+    { id: 'a', name: 'weather', parameters: { city: 'Oslo' } },
+    { id: 'b', name: 'calculator', parameters: {} }
+  ]);
+});
+
+test('parseChatCompletion rejects responses without choices', () => {
+  assert.throws(() => parseChatCompletion({ choices: [] }, 'OpenRouter'), /No response choices returned from OpenRouter/);
+});
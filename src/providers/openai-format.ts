@@ -0,0 +1,274 @@
+import { Readable } from 'stream';
+import { LLMMessage, LLMResponse, LLMGenerationOptions, LLMToolUseContent, LLMToolResultContent, LLMStreamCallback } from '../types';
+import { parseEventStream } from '../utils/sse';
+
+/**
+ * Conversion between the bot's Anthropic-style messages and the OpenAI chat
+ * completions format, shared by every provider that speaks the latter.
+ */
+
+export function toOpenAIMessages(messages: LLMMessage[], systemPrompt?: string): any[] {
+  const convertedMessages: any[] = [];
+
+  if (systemPrompt) {
+    convertedMessages.push({ role: 'system', content: systemPrompt });
+  }
+
+  const systemMessages = messages.filter(msg => msg.role === 'system');
+  if (systemMessages.length > 0 && !systemPrompt) {
+    systemMessages.forEach(msg => {
+      convertedMessages.push({
+        role: msg.role,
+        content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
+      });
+    });
+  }
+
+  const nonSystemMessages = messages.filter(msg => msg.role !== 'system');
+  nonSystemMessages.forEach(msg => {
+    convertedMessages.push(...toOpenAIMessage(msg));
+  });
+
+  return convertedMessages;
+}
+
+/**
+ * Map one message onto the OpenAI chat format: tool_use blocks become
+ * assistant tool_calls and tool_result blocks become 'tool' role messages.
+ */
+function toOpenAIMessage(message: LLMMessage): any[] {
+  if (typeof message.content === 'string') {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  const blocks = message.content;
+  const toolUses = blocks.filter((block): block is LLMToolUseContent => block.type === 'tool_use');
+  const toolResults = blocks.filter((block): block is LLMToolResultContent => block.type === 'tool_result');
+  const parts = blocks
+    .map(block => {
+      if (block.type === 'text') {
+        return { type: 'text', text: block.text };
+      }
+      if (block.type === 'image') {
+        return {
+          type: 'image_url',
+          image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` }
+        };
+      }
+      return null;
+    })
+    .filter((part): part is NonNullable<typeof part> => part !== null);
+
+  if (message.role === 'assistant') {
+    const text = parts
+      .filter(part => part.type === 'text')
+      .map(part => (part as { text: string }).text)
+      .join('');
+    const converted: any = { role: 'assistant', content: text || null };
+
+    if (toolUses.length > 0) {
+      converted.tool_calls = toolUses.map(block => ({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input ?? {})
+        }
+      }));
+    }
+
+    return [converted];
+  }
+
+  const converted: any[] = toolResults.map(block => ({
+    role: 'tool',
+    tool_call_id: block.tool_use_id,
+    content: block.content
+  }));
+
+  if (parts.length > 0) {
+    converted.push({ role: message.role, content: parts });
+  }
+
+  return converted;
+}
+
+export function toOpenAITools(tools: NonNullable<LLMGenerationOptions['tools']>): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+export function toOpenAIToolChoice(toolChoice: NonNullable<LLMGenerationOptions['toolChoice']>): any {
+  if (toolChoice === 'auto' || toolChoice === 'none') {
+    return toolChoice;
+  }
+  return { type: 'function', function: { name: toolChoice } };
+}
+
+/**
+ * Tool call arguments are a JSON string in the OpenAI format, but some
+ * servers send an object, and smaller models do not always emit valid JSON.
+ */
+function parseToolArguments(args: unknown): any {
+  if (args && typeof args === 'object') {
+    return args;
+  }
+
+  try {
+    return JSON.parse(String(args || '{}'));
+  } catch {
+    return {};
+  }
+}
+
+export function parseChatCompletion(response: any, source: string): LLMResponse {
+  const choice = response.choices?.[0];
+  if (!choice) {
+    throw new Error(`No response choices returned from ${source}`);
+  }
+
+  const message = choice.message;
+  const content = message?.content || '';
+  const usage = response.usage;
+
+  const result: LLMResponse = {
+    content,
+    ...(response.model && { model: response.model }),
+    stopReason: mapFinishReason(choice.finish_reason)
+  };
+
+  if (usage) {
+    result.usage = {
+      inputTokens: usage.prompt_tokens || 0,
+      outputTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0
+    };
+  }
+
+  // Handle tool calls (OpenAI format)
+  if (message?.tool_calls && message.tool_calls.length > 0) {
+    result.toolCalls = message.tool_calls.map((toolCall: any, index: number) => ({
+      id: toolCall.id || `call_${index}_${Date.now()}`,
+      name: toolCall.function.name,
+      parameters: parseToolArguments(toolCall.function.arguments)
+    }));
+  }
+
+  return result;
+}
+
+/**
+ * Read a streamed chat completion, reporting text deltas as they arrive, and
+ * assemble it into the shape of a non-streamed completion. Errors sent as
+ * stream events are turned into exceptions with toError.
+ */
+export async function readChatCompletionStream(
+  stream: Readable,
+  onText: LLMStreamCallback,
+  toError: (error: any) => Error
+): Promise<any> {
+  let content = '';
+  let finishReason: string | undefined;
+  let usage: any;
+  let model: string | undefined;
+  const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+  await parseEventStream(stream, (event) => {
+    if (event.data === '[DONE]') return;
+
+    let chunk: any;
+    try {
+      chunk = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (chunk.error) {
+      throw toError(chunk.error);
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+    if (chunk.model) {
+      model = chunk.model;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return;
+
+    const delta = choice.delta || {};
+    if (typeof delta.content === 'string' && delta.content) {
+      content += delta.content;
+      onText(delta.content, content);
+    }
+
+    // Tool call fragments arrive keyed by index; arguments are streamed as partial JSON
+    for (const fragment of delta.tool_calls || []) {
+      const index = fragment.index ?? toolCalls.length;
+      const call = toolCalls[index] ??= { id: '', name: '', arguments: '' };
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.name += fragment.function.name;
+      if (fragment.function?.arguments) {
+        call.arguments += typeof fragment.function.arguments === 'string'
+          ? fragment.function.arguments
+          : JSON.stringify(fragment.function.arguments);
+      }
+    }
+
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+  });
+
+  return {
+    choices: [{
+      finish_reason: finishReason,
+      message: {
+        content,
+        tool_calls: toolCalls.filter(Boolean).map(call => ({
+          id: call.id,
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      }
+    }],
+    usage,
+    model
+  };
+}
+
+/**
+ * Read the JSON error body of a failed streaming request, which axios hands
+ * over as a stream.
+ */
+export async function readErrorBody(stream: Readable): Promise<any> {
+  try {
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk;
+      if (text.length > 64 * 1024) break;
+    }
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function mapFinishReason(finishReason?: string): NonNullable<LLMResponse['stopReason']> {
+  switch (finishReason) {
+    case 'stop':
+      return 'end_turn';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    case 'length':
+      return 'max_tokens';
+    default:
+      return 'other';
+  }
+}
@@ -0,0 +1,275 @@
+import OpenAI from 'openai';
+import { BaseLLMProvider, LLMProviderError, classifyLLMError, parseRetryAfter } from './base';
+import { toOpenAIMessages, toOpenAITools, toOpenAIToolChoice, parseChatCompletion } from './openai-format';
+import { LLMMessage, LLMResponse, LLMGenerationOptions, LLMStreamCallback, LLMProviderConfig } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Which OpenAI API serves a request:
+ * - 'auto': the Responses API for reasoning models (o-series, gpt-5), chat completions otherwise
+ * - 'chat': always chat completions
+ * - 'responses': always the Responses API
+ */
+export type OpenAIApiMode = 'auto' | 'chat' | 'responses';
+
+export interface OpenAIProviderConfig extends LLMProviderConfig {
+  apiMode?: OpenAIApiMode;
+}
+
+/** Reasoning models take no temperature and work best through the Responses API */
+const REASONING_MODEL = /^(o\d|gpt-5)/i;
+
+export class OpenAIProvider extends BaseLLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+  private apiMode: OpenAIApiMode;
+  protected readonly defaultModel = 'gpt-4.1-mini';
+
+  constructor(config: OpenAIProviderConfig) {
+    super(config);
+    this.client = new OpenAI({
+      apiKey: this.apiKey,
+      ...(this.baseURL && { baseURL: this.baseURL })
+    });
+    this.apiMode = config.apiMode || 'auto';
+  }
+
+  async generateResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions = {}
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
+
+    try {
+      if (this.usesResponsesApi(options)) {
+        const response = await this.client.responses.create(this.buildResponsesParams(messages, options));
+        return this.parseResponsesOutput(response);
+      }
+
+      const completion = await this.client.chat.completions.create(this.buildChatParams(messages, options));
+      return parseChatCompletion(completion, 'OpenAI');
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  async streamResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions = {},
+    onText: LLMStreamCallback
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
+
+    try {
+      if (this.usesResponsesApi(options)) {
+        const stream = this.client.responses.stream(this.buildResponsesParams(messages, options));
+        let text = '';
+        stream.on('response.output_text.delta', event => {
+          text += event.delta;
+          onText(event.delta, text);
+        });
+
+        return this.parseResponsesOutput(await stream.finalResponse());
+      }
+
+      const stream = this.client.beta.chat.completions.stream({
+        ...this.buildChatParams(messages, options),
+        stream: true,
+        stream_options: { include_usage: true }
+      });
+      stream.on('content', (delta, snapshot) => onText(delta, snapshot));
+
+      const completion = await stream.finalChatCompletion();
+      logger.provider(`API Stream complete: ${completion.usage?.completion_tokens ?? '?'} output tokens`);
+
+      return parseChatCompletion(completion, 'OpenAI');
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  private usesResponsesApi(options: LLMGenerationOptions): boolean {
+    if (this.apiMode !== 'auto') {
+      return this.apiMode === 'responses';
+    }
+    return REASONING_MODEL.test(this.resolveSettings(options).model);
+  }
+
+  private buildChatParams(messages: LLMMessage[], options: LLMGenerationOptions): any {
+    const { systemPrompt, tools, toolChoice = 'auto' } = options;
+    const { model, maxTokens, temperature } = this.resolveSettings(options);
+
+    const params: any = {
+      model,
+      messages: toOpenAIMessages(messages, systemPrompt),
+      // max_tokens is rejected by reasoning models; max_completion_tokens works for all
+      max_completion_tokens: maxTokens,
+      ...(!REASONING_MODEL.test(model) && { temperature })
+    };
+
+    if (tools && tools.length > 0) {
+      params.tools = toOpenAITools(tools);
+      params.tool_choice = toOpenAIToolChoice(toolChoice);
+    }
+
+    logger.provider(`API Request: ${model} (chat) | ${params.tools?.length || 0} tools | ${params.messages.length} messages`);
+    return params;
+  }
+
+  private buildResponsesParams(messages: LLMMessage[], options: LLMGenerationOptions): any {
+    const { systemPrompt, tools, toolChoice = 'auto' } = options;
+    const { model, maxTokens, temperature } = this.resolveSettings(options);
+    const systemMessage = messages.find(msg => msg.role === 'system');
+    const instructions = systemPrompt || (typeof systemMessage?.content === 'string' ? systemMessage.content : undefined);
+
+    const params: any = {
+      model,
+      input: this.toResponsesInput(messages),
+      max_output_tokens: maxTokens,
+      // Conversation state lives in our own history store
+      store: false,
+      ...(instructions && { instructions }),
+      ...(!REASONING_MODEL.test(model) && { temperature })
+    };
+
+    if (tools && tools.length > 0) {
+      params.tools = tools.map(tool => ({
+        type: 'function',
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+        strict: false
+      }));
+      params.tool_choice = toolChoice === 'auto' || toolChoice === 'none' ? toolChoice : { type: 'function', name: toolChoice };
+    }
+
+    logger.provider(`API Request: ${model} (responses) | ${params.tools?.length || 0} tools | ${params.input.length} input items`);
+    return params;
+  }
+
+  /**
+   * Map messages onto Responses API input items: tool_use blocks become
+   * function_call items and tool_result blocks function_call_output items,
+   * in the order they appear.
+   */
+  private toResponsesInput(messages: LLMMessage[]): any[] {
+    const items: any[] = [];
+
+    for (const message of messages.filter(msg => msg.role !== 'system')) {
+      if (typeof message.content === 'string') {
+        items.push({ role: message.role, content: message.content });
+        continue;
+      }
+
+      let parts: any[] = [];
+      const flush = () => {
+        if (parts.length > 0) {
+          // Earlier assistant turns are passed as plain text
+          const content = message.role === 'assistant' ? parts.map(part => part.text).join('') : parts;
+          items.push({ role: message.role, content });
+          parts = [];
+        }
+      };
+
+      for (const block of message.content) {
+        if (block.type === 'text') {
+          parts.push({ type: 'input_text', text: block.text });
+        } else if (block.type === 'image') {
+          parts.push({
+            type: 'input_image',
+            image_url: `data:${block.source.media_type};base64,${block.source.data}`,
+            detail: 'auto'
+          });
+        } else if (block.type === 'tool_use') {
+          flush();
+          items.push({ type: 'function_call', call_id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+        } else {
+          flush();
+          items.push({ type: 'function_call_output', call_id: block.tool_use_id, output: block.content });
+        }
+      }
+      flush();
+    }
+
+    return items;
+  }
+
+  private parseResponsesOutput(response: any): LLMResponse {
+    const toolCalls = (response.output || [])
+      .filter((item: any) => item.type === 'function_call')
+      .map((item: any) => {
+        let parameters: any = {};
+        try {
+          parameters = JSON.parse(item.arguments || '{}');
+        } catch {
+          // Leave malformed arguments empty; the tool reports what is missing
+        }
+        return { id: item.call_id, name: item.name, parameters };
+      });
+
+    const incomplete = response.status === 'incomplete' && response.incomplete_details?.reason === 'max_output_tokens';
+    // output_text is only filled in on non-streamed responses
+    const content = response.output_text || (response.output || [])
+      .filter((item: any) => item.type === 'message')
+      .flatMap((item: any) => item.content || [])
+      .filter((part: any) => part.type === 'output_text')
+      .map((part: any) => part.text)
+      .join('');
+    const result: LLMResponse = {
+      content,
+      ...(response.model && { model: response.model }),
+      stopReason: toolCalls.length > 0 ? 'tool_use' : incomplete ? 'max_tokens' : 'end_turn'
+    };
+
+    if (response.usage) {
+      result.usage = {
+        inputTokens: response.usage.input_tokens || 0,
+        outputTokens: response.usage.output_tokens || 0,
+        totalTokens: response.usage.total_tokens || 0
+      };
+    }
+
+    if (toolCalls.length > 0) {
+      result.toolCalls = toolCalls;
+    }
+
+    return result;
+  }
+
+  private wrapError(error: unknown): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      const message = (error.error as { message?: string } | undefined)?.message || error.message;
+      const retryAfterMs = parseRetryAfter(error.headers?.['retry-after']);
+      let kind = classifyLLMError(error.status, undefined, message);
+      if (error instanceof OpenAI.APIConnectionTimeoutError) {
+        kind = 'timeout';
+      } else if (error instanceof OpenAI.APIConnectionError) {
+        kind = 'network';
+      } else if (error.code === 'context_length_exceeded') {
+        kind = 'context_length_exceeded';
+      } else if (error.code === 'content_policy_violation' || error.code === 'content_filter') {
+        kind = 'content_filtered';
+      } else if (error.code === 'insufficient_quota') {
+        // A 429 that waiting will not fix: the account is out of credit
+        kind = 'auth';
+      }
+
+      return new LLMProviderError(this.name, `OpenAI API error: ${message}`, {
+        kind,
+        ...(error.status !== undefined && { status: error.status }),
+        ...(retryAfterMs !== undefined && kind === 'rate_limited' && { retryAfterMs }),
+        cause: error
+      });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new LLMProviderError(this.name, `OpenAI API error: ${message}`, {
+      kind: classifyLLMError(undefined, (error as any)?.code, message),
+      cause: error
+    });
+  }
+}
@@ -1,18 +1,19 @@
 import axios, { AxiosInstance } from 'axios';
-import { BaseLLMProvider } from './base';
-import { LLMMessage, LLMResponse, LLMGenerationOptions } from '../types';
+import { BaseLLMProvider, LLMProviderError, classifyLLMError, parseRetryAfter } from './base';
+import { toOpenAIMessages, toOpenAITools, toOpenAIToolChoice, parseChatCompletion, readChatCompletionStream, readErrorBody } from './openai-format';
+import { Readable } from 'stream';
+import { LLMMessage, LLMResponse, LLMGenerationOptions, LLMStreamCallback, LLMProviderConfig } from '../types';
 
 export class OpenRouterProvider extends BaseLLMProvider {
   readonly name = 'openrouter';
   private client: AxiosInstance;
-  private readonly defaultModel = 'anthropic/claude-3.5-sonnet';
-  private readonly defaultMaxTokens = 1000;
-  private readonly defaultTemperature = 0.7;
+  protected readonly defaultModel = 'anthropic/claude-3.5-sonnet';
 
-  constructor(apiKey: string, baseURL = 'https://openrouter.ai/api/v1') {
-    super(apiKey, baseURL);
+  constructor(config: LLMProviderConfig) {
+    const baseURL = config.baseURL || 'https://openrouter.ai/api/v1';
+    super({ ...config, baseURL });
     this.client = axios.create({
-      baseURL: baseURL,
+      baseURL,
       headers: {
         'Authorization': `Bearer ${this.apiKey}`,
         'HTTP-Referer': 'https://github.com/neshauto/whatsapp-bot',
@@ -29,119 +30,110 @@ export class OpenRouterProvider extends BaseLLMProvider {
   ): Promise<LLMResponse> {
     this.validateMessages(messages);
 
-    const {
-      maxTokens = this.defaultMaxTokens,
-      temperature = this.defaultTemperature,
-      model = this.defaultModel,
-      systemPrompt,
-      tools,
-      toolChoice = 'auto'
-    } = options;
-
     try {
-      const openRouterMessages = this.convertMessages(messages, systemPrompt);
-      
-      const requestBody: any = {
-        model,
-        messages: openRouterMessages,
-        max_tokens: maxTokens,
-        temperature,
-        stream: false
-      };
-
-      // Add tools if provided (OpenAI format)
-      if (tools && tools.length > 0) {
-        requestBody.tools = tools.map(tool => ({
-          type: 'function',
-          function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: tool.parameters
-          }
-        }));
-
-        if (toolChoice !== 'auto') {
-          requestBody.tool_choice = toolChoice === 'none' ? 'none' : { type: 'function', function: { name: toolChoice } };
-        } else {
-          requestBody.tool_choice = 'auto';
-        }
-      }
-
+      const requestBody = this.buildRequestBody(messages, options, false);
       const response = await this.client.post('/chat/completions', requestBody);
 
-      return this.parseResponse(response.data);
+      return parseChatCompletion(response.data, 'OpenRouter');
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const message = error.response?.data?.error?.message || error.message;
-        throw new Error(`OpenRouter API error: ${message}`);
-      }
-      throw new Error(`OpenRouter API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw await this.wrapError(error);
     }
   }
 
-  private convertMessages(messages: LLMMessage[], systemPrompt?: string): Array<{ role: string; content: string }> {
-    const systemMessage = this.buildSystemMessage(systemPrompt);
-    const convertedMessages: Array<{ role: string; content: string }> = [];
+  async streamResponse(
+    messages: LLMMessage[],
+    options: LLMGenerationOptions = {},
+    onText: LLMStreamCallback
+  ): Promise<LLMResponse> {
+    this.validateMessages(messages);
 
-    if (systemMessage) {
-      convertedMessages.push({
-        role: systemMessage.role,
-        content: typeof systemMessage.content === 'string' ? systemMessage.content : JSON.stringify(systemMessage.content)
+    try {
+      const requestBody = this.buildRequestBody(messages, options, true);
+      const response = await this.client.post<Readable>('/chat/completions', requestBody, {
+        responseType: 'stream'
       });
+
+      const completion = await readChatCompletionStream(
+        response.data,
+        onText,
+        error => this.createError(error, typeof error.code === 'number' ? error.code : undefined)
+      );
+
+      return parseChatCompletion(completion, 'OpenRouter');
+    } catch (error) {
+      throw await this.wrapError(error);
     }
+  }
 
-    const systemMessages = messages.filter(msg => msg.role === 'system');
-    if (systemMessages.length > 0 && !systemMessage) {
-      systemMessages.forEach(msg => {
-        convertedMessages.push({
-          role: msg.role,
-          content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-        });
-      });
+  private buildRequestBody(messages: LLMMessage[], options: LLMGenerationOptions, stream: boolean): any {
+    const { systemPrompt, tools, toolChoice = 'auto' } = options;
+    const { model, maxTokens, temperature } = this.resolveSettings(options);
+
+    const openRouterMessages = toOpenAIMessages(messages, systemPrompt);
+    
+    const requestBody: any = {
+      model,
+      messages: openRouterMessages,
+      max_tokens: maxTokens,
+      temperature,
+      stream
+    };
+
+    if (stream) {
+      requestBody.stream_options = { include_usage: true };
     }
 
-    const nonSystemMessages = messages.filter(msg => msg.role !== 'system');
-    nonSystemMessages.forEach(msg => {
-      convertedMessages.push({
-        role: msg.role,
-        content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-      });
-    });
+    // Add tools if provided (OpenAI format)
+    if (tools && tools.length > 0) {
+      requestBody.tools = toOpenAITools(tools);
+      requestBody.tool_choice = toOpenAIToolChoice(toolChoice);
+    }
 
-    return convertedMessages;
+    return requestBody;
   }
 
-  private parseResponse(response: any): LLMResponse {
-    const choice = response.choices?.[0];
-    if (!choice) {
-      throw new Error('No response choices returned from OpenRouter');
+  private async wrapError(error: unknown): Promise<LLMProviderError> {
+    if (error instanceof LLMProviderError) {
+      return error;
     }
 
-    const message = choice.message;
-    const content = message?.content || '';
-    const usage = response.usage;
-
-    const result: LLMResponse = {
-      content
-    };
+    if (axios.isAxiosError(error)) {
+      let data = error.response?.data;
+      // Streaming requests get the error body as a stream too
+      if (data instanceof Readable) {
+        data = await readErrorBody(data);
+      }
 
-    if (usage) {
-      result.usage = {
-        inputTokens: usage.prompt_tokens || 0,
-        outputTokens: usage.completion_tokens || 0,
-        totalTokens: usage.total_tokens || 0
-      };
+      const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+      return this.createError(
+        { message: error.message, ...data?.error, ...(error.code && { code: error.code }) },
+        error.response?.status,
+        retryAfterMs,
+        error
+      );
     }
 
-    // Handle tool calls (OpenAI format)
-    if (message?.tool_calls && message.tool_calls.length > 0) {
-      result.toolCalls = message.tool_calls.map((toolCall: any) => ({
-        id: toolCall.id,
-        name: toolCall.function.name,
-        parameters: JSON.parse(toolCall.function.arguments || '{}')
-      }));
-    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new LLMProviderError(this.name, `OpenRouter API error: ${message}`, {
+      kind: classifyLLMError(undefined, undefined, message),
+      cause: error
+    });
+  }
 
-    return result;
+  /**
+   * Build an error from an OpenRouter error object ({ code, message, metadata }).
+   * Moderation rejections carry the flagged reasons in their metadata.
+   */
+  private createError(body: any, status?: number, retryAfterMs?: number, cause?: unknown): LLMProviderError {
+    const message = String(body?.message || 'Unknown error');
+    const code = typeof body?.code === 'string' ? body.code : undefined;
+    const kind = Array.isArray(body?.metadata?.reasons) ? 'content_filtered' : classifyLLMError(status, code, message);
+
+    return new LLMProviderError(this.name, `OpenRouter API error: ${message}`, {
+      kind,
+      ...(status !== undefined && { status }),
+      ...(retryAfterMs !== undefined && { retryAfterMs }),
+      cause: cause ?? body
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+/**
+ * Stub MCP Server
+ * Answers initialize, tools/list and tools/call over stdio with a single
+ * "echo" tool, and prompts/list and prompts/get with a "greet" prompt, for
+ * exercising the MCP client end to end. The first argument names the server.
+ */
+
+const readline = require('readline');
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the given text back',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string' }
+      },
+      required: ['text']
+    }
+  }
+];
+
+const serverName = process.argv[2] || 'stub-mcp-server';
+
+const prompts = [
+  {
+    name: 'greet',
+    description: 'Greet someone',
+    arguments: [{ name: 'who', required: true }]
+  }
+];
+
+const send = (message) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+
+const handle = (message) => {
+  switch (message.method) {
+    case 'initialize':
+      return {
+        protocolVersion: message.params.protocolVersion,
+        capabilities: { tools: {}, prompts: {} },
+        serverInfo: { name: serverName, version: '1.0.0' }
+      };
+    case 'tools/list':
+      return { tools };
+    case 'tools/call':
+      if (message.params.name !== 'echo') {
+        return { content: [{ type: 'text', text: `Unknown tool: ${message.params.name}` }], isError: true };
+      }
+      return { content: [{ type: 'text', text: message.params.arguments.text }] };
+    case 'prompts/list':
+      return { prompts };
+    case 'prompts/get':
+      return {
+        messages: [{ role: 'user', content: { type: 'text', text: `Say hello to ${message.params.arguments.who} from ${serverName}` } }]
+      };
+    default:
+      return null;
+  }
+};
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  if (!line.trim()) return;
+
+  const message = JSON.parse(line);
+  // Notifications need no answer
+  if (message.id === undefined) return;
+
+  const result = handle(message);
+  if (result) {
+    send({ id: message.id, result });
+  } else {
+    send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+  }
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContextManager, getContextWindow } from './context-manager';
+import { LLMMessage } from '../types';
+
+test('getContextWindow prefers the longest matching pattern', () => {
+  assert.equal(getContextWindow('meta-llama/llama-3.3-70b-instruct'), 128000);
+  assert.equal(getContextWindow('meta-llama/llama-3-8b-instruct'), 8192);
+  assert.equal(getContextWindow('gpt-4o-mini'), 128000);
+  assert.equal(getContextWindow('gpt-4'), 8192);
+  assert.equal(getContextWindow('Claude-Sonnet-4'), 200000);
+  assert.equal(getContextWindow('some-unknown-model'), 16000);
+});
+
+test('getBudget subtracts the answer reservation and applies the cap', () => {
+  const small = new ContextManager({ provider: 'openai', model: 'gpt-4', maxOutputTokens: 1000, maxContextTokens: 24000 });
+  const capped = new ContextManager({ provider: 'anthropic', model: 'claude-sonnet-4', maxOutputTokens: 1000, maxContextTokens: 24000 });
+
+  assert.equal(small.getBudget(), 7192);
+  assert.equal(capped.getBudget(), 24000);
+});
+
+const turn = (role: LLMMessage['role'], content: string): LLMMessage => ({ role, content });
+
+test('fitHistory keeps the most recent turns that fit, starting on a user turn', () => {
+  const manager = new ContextManager({ provider: 'openai', model: 'gpt-4', maxOutputTokens: 1000, maxContextTokens: 1000 });
+  const history = Array.from({ length: 20 }, (_, index) => turn(index % 2 === 0 ? 'user' : 'assistant', 'x'.repeat(400)));
+
+  const result = manager.fitHistory(history);
+
+  assert.ok(result.messages.length > 0 && result.messages.length < history.length);
+  assert.equal(result.messages[0]!.role, 'user');
+  assert.equal(result.dropped.length + result.messages.length, history.length);
+  assert.deepEqual(result.messages, history.slice(result.dropped.length));
+  assert.ok(result.usedTokens <= result.budget);
+});
+
+test('fitHistory leaves room for the system prompt and current message', () => {
+  const manager = new ContextManager({ provider: 'openai', model: 'gpt-4', maxOutputTokens: 1000, maxContextTokens: 1000 });
+  const history = [turn('user', 'a'.repeat(400)), turn('assistant', 'b'.repeat(400))];
+
+  const result = manager.fitHistory(history, {
+    systemPrompt: 's'.repeat(3600),
+    currentMessages: [turn('user', 'what now?')]
+  });
+
+  assert.deepEqual(result.messages, []);
+  assert.deepEqual(result.dropped, history);
+});
+
+test('fitHistory truncates oversized old messages instead of dropping them', () => {
+  const manager = new ContextManager({ provider: 'openai', model: 'gpt-4', maxOutputTokens: 1000, maxContextTokens: 4000 });
+  const history = [turn('user', 'y'.repeat(20000)), turn('assistant', 'short answer')];
+
+  const result = manager.fitHistory(history);
+
+  assert.equal(result.truncatedMessages, 1);
+  assert.equal(result.messages.length, 2);
+  assert.match(result.messages[0]!.content as string, /\[truncated\]$/);
+});
@@ -0,0 +1,261 @@
+import { LLMMessage, LLMContent, LLMGenerationOptions, LLMProvider } from '../types';
+
+export interface ContextManagerOptions {
+  provider: string;
+  model?: string;
+  /** Model used to summarize old turns instead of the answering model */
+  summaryModel?: string;
+  /** Tokens reserved for the model's answer */
+  maxOutputTokens?: number;
+  /** Upper bound on prompt tokens, even when the model's window is larger */
+  maxContextTokens?: number;
+}
+
+export interface ContextFitRequest {
+  systemPrompt?: string;
+  tools?: LLMGenerationOptions['tools'];
+  /** Messages that must be sent in full (usually the new user turn) */
+  currentMessages?: LLMMessage[];
+}
+
+export interface ContextFitResult {
+  /** History that fits the budget, oldest first */
+  messages: LLMMessage[];
+  /** Older history that had to be left out, oldest first */
+  dropped: LLMMessage[];
+  usedTokens: number;
+  budget: number;
+  truncatedMessages: number;
+}
+
+/**
+ * Known context windows, matched by substring against the model id. The
+ * longest matching pattern wins, so 'llama-3.1' beats 'llama-3'.
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['claude', 200000],
+  ['gpt-5', 400000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5', 16385],
+  ['gemini-pro', 32760],
+  ['gemini', 1000000],
+  ['llama-3.1', 128000],
+  ['llama3.1', 128000],
+  ['llama-3.2', 128000],
+  ['llama3.2', 128000],
+  ['llama-3.3', 128000],
+  ['llama3.3', 128000],
+  ['llama-3', 8192],
+  ['llama3', 8192],
+  ['qwen2.5', 32768],
+  ['qwen3', 32768],
+  ['llama-2', 4096],
+  ['mistral', 32000],
+  ['o4-mini', 200000],
+  ['o3', 200000],
+  ['o1', 200000]
+];
+
+const DEFAULT_CONTEXT_WINDOW = 16000;
+const DEFAULT_MAX_CONTEXT_TOKENS = 24000;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 1600;
+const TRUNCATION_MARKER = '\n… [truncated]';
+const SUMMARY_MAX_TOKENS = 600;
+
+const SUMMARY_PROMPT = `You maintain the long-term memory of a WhatsApp assistant.
+Merge the existing summary (if any) with the new conversation excerpt into one updated summary.
+Keep facts about the user, their preferences, decisions made, open questions and commitments.
+Drop greetings and small talk. Write in the third person, at most 250 words, no preamble.`;
+
+/** Context window of a model id, or a conservative default for unknown models */
+export function getContextWindow(model: string): number {
+  const id = model.toLowerCase();
+  const match = MODEL_CONTEXT_WINDOWS
+    .filter(([pattern]) => id.includes(pattern))
+    .reduce<[string, number] | undefined>((best, entry) => !best || entry[0].length > best[0].length ? entry : best, undefined);
+  return match?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimates prompt size and trims conversation history so that the system
+ * prompt, tool schemas, injected context and history fit the model's budget.
+ * Token counts are character-based approximations tuned per tokenizer family.
+ */
+export class ContextManager {
+  private options: ContextManagerOptions;
+  private charsPerToken: number;
+
+  constructor(options: ContextManagerOptions) {
+    this.options = options;
+    // Claude's tokenizer produces noticeably more tokens per character than OpenAI-style BPE
+    const isClaude = options.provider === 'anthropic' || (options.model || '').includes('claude');
+    this.charsPerToken = isClaude ? 3.5 : 4;
+  }
+
+  /**
+   * Prompt tokens available for a request: the model's window minus the
+   * output reservation, capped by maxContextTokens.
+   */
+  getBudget(): number {
+    const window = getContextWindow(this.options.model || '');
+    const available = window - (this.options.maxOutputTokens ?? 1000);
+    return Math.max(0, Math.min(available, this.options.maxContextTokens ?? DEFAULT_MAX_CONTEXT_TOKENS));
+  }
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / this.charsPerToken);
+  }
+
+  countMessageTokens(message: LLMMessage): number {
+    return MESSAGE_OVERHEAD_TOKENS + this.countContentTokens(message.content);
+  }
+
+  countToolTokens(tools: LLMGenerationOptions['tools'] = []): number {
+    return tools.length > 0 ? this.countTokens(JSON.stringify(tools)) : 0;
+  }
+
+  /**
+   * Keep as much recent history as fits next to the fixed parts of the
+   * request. Oversized history messages are truncated rather than dropped
+   * outright, and the kept history always starts on a user turn.
+   */
+  fitHistory(history: LLMMessage[], request: ContextFitRequest = {}): ContextFitResult {
+    const budget = this.getBudget();
+    const fixedTokens =
+      (request.systemPrompt ? this.countTokens(request.systemPrompt) : 0) +
+      this.countToolTokens(request.tools) +
+      (request.currentMessages || []).reduce((sum, message) => sum + this.countMessageTokens(message), 0);
+
+    let remaining = budget - fixedTokens;
+    // No single old message may take more than a quarter of the budget
+    const maxMessageTokens = Math.max(200, Math.floor(budget / 4));
+    const kept: LLMMessage[] = [];
+    let truncatedMessages = 0;
+    let index = history.length - 1;
+
+    for (; index >= 0; index--) {
+      let message = history[index]!;
+      let tokens = this.countMessageTokens(message);
+
+      if (tokens > maxMessageTokens && typeof message.content === 'string') {
+        message = { ...message, content: this.truncate(message.content, maxMessageTokens - MESSAGE_OVERHEAD_TOKENS) };
+        tokens = this.countMessageTokens(message);
+        truncatedMessages++;
+      }
+
+      if (tokens > remaining) {
+        break;
+      }
+
+      kept.unshift(message);
+      remaining -= tokens;
+    }
+
+    let dropped = history.slice(0, index + 1);
+
+    while (kept.length > 0 && kept[0]!.role !== 'user') {
+      remaining += this.countMessageTokens(kept[0]!);
+      dropped = [...dropped, history[dropped.length]!];
+      kept.shift();
+    }
+
+    return {
+      messages: kept,
+      dropped,
+      usedTokens: budget - remaining,
+      budget,
+      truncatedMessages
+    };
+  }
+
+  /**
+   * Fold turns that no longer fit into a running summary of the conversation.
+   */
+  async summarize(provider: LLMProvider, messages: LLMMessage[], previousSummary?: string): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${this.renderContent(message.content)}`)
+      .join('\n');
+
+    const request = [
+      previousSummary ? `Existing summary:\n${previousSummary}` : 'Existing summary: (none)',
+      `New conversation excerpt:\n${this.truncate(transcript, Math.floor(this.getBudget() / 2))}`
+    ].join('\n\n');
+
+    const model = this.options.summaryModel || this.options.model;
+    const response = await provider.generateResponse(
+      [{ role: 'user', content: request }],
+      {
+        systemPrompt: SUMMARY_PROMPT,
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.2,
+        ...(model && { model })
+      }
+    );
+
+    return this.truncate(response.content.trim(), SUMMARY_MAX_TOKENS);
+  }
+
+  /** System prompt with the running summary placed ahead of it */
+  withSummary(systemPrompt: string, summary?: string | null): string {
+    if (!summary) {
+      return systemPrompt;
+    }
+    return `SUMMARY OF THE EARLIER CONVERSATION (older messages are no longer shown):\n${summary}\n\n${systemPrompt}`;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const maxChars = Math.floor(maxTokens * this.charsPerToken) - TRUNCATION_MARKER.length;
+    if (text.length <= maxChars) {
+      return text;
+    }
+    return text.substring(0, Math.max(0, maxChars)) + TRUNCATION_MARKER;
+  }
+
+  private renderContent(content: LLMContent): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content
+      .map(block => {
+        switch (block.type) {
+          case 'text':
+            return block.text;
+          case 'image':
+            return '[image]';
+          case 'tool_use':
+            return `[used tool ${block.name}]`;
+          case 'tool_result':
+            return `[tool result: ${block.content.substring(0, 200)}]`;
+          default:
+            return '';
+        }
+      })
+      .join(' ');
+  }
+
+  private countContentTokens(content: LLMContent): number {
+    if (typeof content === 'string') {
+      return this.countTokens(content);
+    }
+
+    return content.reduce((sum, block) => {
+      switch (block.type) {
+        case 'text':
+          return sum + this.countTokens(block.text);
+        case 'image':
+          return sum + IMAGE_TOKENS;
+        case 'tool_use':
+          return sum + this.countTokens(block.name + JSON.stringify(block.input ?? {}));
+        case 'tool_result':
+          return sum + this.countTokens(block.content);
+        default:
+          return sum;
+      }
+    }, 0);
+  }
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseService } from './database';
+
+/** Query builder that answers like PostgREST: at most 1000 rows unless a range is asked for */
+const fakeSupabase = (tables: Record<string, any[]>) => ({
+  from(table: string) {
+    let range: [number, number] = [0, 999];
+    const query: any = {
+      select: () => query,
+      eq: () => query,
+      in: () => query,
+      order: () => query,
+      range: (from: number, to: number) => {
+        range = [from, Math.min(to, from + 999)];
+        return query;
+      },
+      then: (resolve: (result: unknown) => void) => resolve({ data: (tables[table] || []).slice(range[0], range[1] + 1), error: null })
+    };
+    return query;
+  }
+});
+
+test('getUserStats totals usage across more rows than one response holds', async () => {
+  const messages = Array.from({ length: 2500 }, (_, index) => ({
+    tokens_used: 10,
+    timestamp: new Date(Date.UTC(2026, 0, 1) + index * 1000).toISOString(),
+    model_used: 'gpt-4o-mini',
+    provider_used: 'openai',
+    metadata: { cost_usd: 0.001 }
+  }));
+  const database = new DatabaseService('http://localhost:54321', 'anon-key');
+  (database as any).supabase = fakeSupabase({ conversations: [{ id: 'conversation-1' }], messages });
+
+  const stats = await database.getUserStats('user-1');
+
+  assert.equal(stats.totalMessages, 2500);
+  assert.equal(stats.totalTokensUsed, 25000);
+  assert.equal(stats.usage.byModel['gpt-4o-mini']?.responses, 2500);
+  assert.ok(Math.abs(stats.usage.totalCostUsd - 2.5) < 1e-9);
+  assert.equal(stats.lastMessageDate, messages[2499]!.timestamp);
+});
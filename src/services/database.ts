@@ -1,5 +1,11 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { BotMessage, LLMResponse } from '../types';
+import { calculateCost } from '../utils/pricing';
+
+/** Rows fetched per request when reading a whole table; PostgREST caps responses at 1000 by default */
+const PAGE_SIZE = 1000;
+
+type UsageRow = { tokens_used?: number | null; model_used?: string | null; provider_used?: string | null; metadata?: any };
 
 export interface User {
   id: string;
@@ -39,8 +45,31 @@ export interface Message {
   metadata: Record<string, any>;
 }
 
+export interface UsageCounter {
+  subject_id: string;
+  day: string;
+  requests: number;
+  tokens_used: number;
+  updated_at: string;
+}
+
+export interface UsageBreakdown {
+  responses: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  /** Estimated from list prices; responses from unpriced models count as free */
+  totalCostUsd: number;
+  byModel: Record<string, UsageBreakdown>;
+  byProvider: Record<string, UsageBreakdown>;
+}
+
 export class DatabaseService {
   private supabase: SupabaseClient;
+  // Serialize metadata read-modify-writes per conversation so they don't clobber each other
+  private metadataWrites: Map<string, Promise<void>> = new Map();
 
   constructor(supabaseUrl: string, supabaseKey: string) {
     this.supabase = createClient(supabaseUrl, supabaseKey);
@@ -97,6 +126,33 @@ export class DatabaseService {
     return await this.createUser(whatsappId, name);
   }
 
+  async getUserMetadata(userId: string): Promise<Record<string, any>> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('metadata')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to load user metadata: ${error.message}`);
+    }
+
+    return data?.metadata || {};
+  }
+
+  async updateUserMetadata(userId: string, metadata: Record<string, any>): Promise<void> {
+    const existing = await this.getUserMetadata(userId);
+
+    const { error } = await this.supabase
+      .from('users')
+      .update({ metadata: { ...existing, ...metadata } })
+      .eq('id', userId);
+
+    if (error) {
+      throw new Error(`Failed to update user metadata: ${error.message}`);
+    }
+  }
+
   async getOrCreateConversation(userId: string, whatsappChatId: string, isGroup: boolean = false, groupName?: string): Promise<Conversation> {
     // Try to get existing conversation
     const { data: existingConversation } = await this.supabase
@@ -198,7 +254,9 @@ export class DatabaseService {
         botMessage.id,
         'user',
         botMessage.content,
-        new Date(botMessage.timestamp)
+        new Date(botMessage.timestamp),
+        // Group messages are tagged with their author for per-member history
+        botMessage.author ? { metadata: { member: botMessage.author } } : {}
       );
 
       return { user, conversation, message };
@@ -215,8 +273,12 @@ export class DatabaseService {
     llmResponse: LLMResponse,
     providerUsed: string,
     modelUsed: string,
-    responseTimeMs: number
+    responseTimeMs: number,
+    toolRounds: number = 0,
+    member?: string
   ): Promise<Message> {
+    const costUsd = calculateCost(modelUsed, llmResponse.usage);
+
     return await this.saveMessage(
       conversationId,
       responseId,
@@ -229,17 +291,91 @@ export class DatabaseService {
         providerUsed,
         responseTimeMs,
         metadata: {
-          usage: llmResponse.usage
+          usage: llmResponse.usage,
+          tool_rounds: toolRounds,
+          ...(costUsd !== null && { cost_usd: costUsd }),
+          ...(member && { member })
         }
       }
     );
   }
 
-  async getConversationHistory(conversationId: string, limit: number = 20): Promise<Message[]> {
+  async findConversationByChatId(whatsappChatId: string): Promise<Conversation | null> {
     const { data, error } = await this.supabase
+      .from('conversations')
+      .select('*')
+      .eq('whatsapp_chat_id', whatsappChatId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find conversation: ${error.message}`);
+    }
+
+    return data as Conversation | null;
+  }
+
+  /**
+   * Merge keys into a conversation's metadata. With a member, the keys are
+   * merged into that member's entry under `members` instead, leaving other
+   * members' entries as they are stored now.
+   */
+  async updateConversationMetadata(conversationId: string, metadata: Record<string, any>, member?: string): Promise<void> {
+    await this.enqueueMetadataWrite(conversationId, async () => {
+      const { data: existing, error: fetchError } = await this.supabase
+        .from('conversations')
+        .select('metadata')
+        .eq('id', conversationId)
+        .single();
+
+      if (fetchError) {
+        throw new Error(`Failed to load conversation metadata: ${fetchError.message}`);
+      }
+
+      const current: Record<string, any> = existing?.metadata || {};
+      const updated = member
+        ? { ...current, members: { ...current.members, [member]: { ...current.members?.[member], ...metadata } } }
+        : { ...current, ...metadata };
+
+      const { error } = await this.supabase
+        .from('conversations')
+        .update({ metadata: updated })
+        .eq('id', conversationId);
+
+      if (error) {
+        throw new Error(`Failed to update conversation metadata: ${error.message}`);
+      }
+    });
+  }
+
+  private enqueueMetadataWrite(conversationId: string, operation: () => Promise<void>): Promise<void> {
+    const next = (this.metadataWrites.get(conversationId) || Promise.resolve())
+      .catch(() => undefined)
+      .then(operation);
+
+    this.metadataWrites.set(conversationId, next);
+    return next.finally(() => {
+      if (this.metadataWrites.get(conversationId) === next) {
+        this.metadataWrites.delete(conversationId);
+      }
+    });
+  }
+
+  async getConversationHistory(conversationId: string, limit: number = 20, since?: string, member?: string): Promise<Message[]> {
+    let query = this.supabase
       .from('messages')
       .select('*')
-      .eq('conversation_id', conversationId)
+      .eq('conversation_id', conversationId);
+
+    if (since) {
+      query = query.gt('timestamp', since);
+    }
+    if (member) {
+      query = query.eq('metadata->>member', member);
+    }
+
+    const { data, error } = await query
       .order('timestamp', { ascending: false })
       .limit(limit);
 
@@ -256,6 +392,7 @@ export class DatabaseService {
     totalTokensUsed: number;
     firstMessageDate: string | null;
     lastMessageDate: string | null;
+    usage: UsageReport;
   }> {
     const { data: conversations } = await this.supabase
       .from('conversations')
@@ -268,26 +405,19 @@ export class DatabaseService {
         totalConversations: 0,
         totalTokensUsed: 0,
         firstMessageDate: null,
-        lastMessageDate: null
+        lastMessageDate: null,
+        usage: this.buildUsageReport([])
       };
     }
 
     const conversationIds = conversations.map(c => c.id);
 
-    const { data: messageStats } = await this.supabase
+    const messageStats = await this.fetchAllPages<UsageRow & { timestamp: string }>((from, to) => this.supabase
       .from('messages')
-      .select('tokens_used, timestamp')
-      .in('conversation_id', conversationIds);
-
-    if (!messageStats) {
-      return {
-        totalMessages: 0,
-        totalConversations: conversations.length,
-        totalTokensUsed: 0,
-        firstMessageDate: null,
-        lastMessageDate: null
-      };
-    }
+      .select('tokens_used, timestamp, model_used, provider_used, metadata')
+      .in('conversation_id', conversationIds)
+      .order('id')
+      .range(from, to));
 
     const totalTokensUsed = messageStats.reduce((sum, msg) => sum + (msg.tokens_used || 0), 0);
     const timestamps = messageStats.map(msg => msg.timestamp).sort();
@@ -297,7 +427,8 @@ export class DatabaseService {
       totalConversations: conversations.length,
       totalTokensUsed,
       firstMessageDate: timestamps[0] || null,
-      lastMessageDate: timestamps[timestamps.length - 1] || null
+      lastMessageDate: timestamps[timestamps.length - 1] || null,
+      usage: this.buildUsageReport(messageStats)
     };
   }
 
@@ -307,32 +438,116 @@ export class DatabaseService {
     totalMessages: number;
     totalTokensUsed: number;
     activeUsersLast24h: number;
+    usage: UsageReport;
   }> {
     const [
       { count: totalUsers },
       { count: totalConversations },
       { count: totalMessages },
-      { data: tokenData },
+      tokenData,
       { count: activeUsers }
     ] = await Promise.all([
       this.supabase.from('users').select('*', { count: 'exact', head: true }),
       this.supabase.from('conversations').select('*', { count: 'exact', head: true }),
       this.supabase.from('messages').select('*', { count: 'exact', head: true }),
-      this.supabase.from('messages').select('tokens_used'),
+      this.fetchAllPages<UsageRow>((from, to) => this.supabase
+        .from('messages')
+        .select('tokens_used, model_used, provider_used, metadata')
+        .order('id')
+        .range(from, to)),
       this.supabase.from('messages')
         .select('conversation_id', { count: 'exact', head: true })
         .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
     ]);
 
-    const totalTokensUsed = tokenData?.reduce((sum, msg) => sum + (msg.tokens_used || 0), 0) || 0;
+    const totalTokensUsed = tokenData.reduce((sum, msg) => sum + (msg.tokens_used || 0), 0);
 
     return {
       totalUsers: totalUsers || 0,
       totalConversations: totalConversations || 0,
       totalMessages: totalMessages || 0,
       totalTokensUsed,
-      activeUsersLast24h: activeUsers || 0
+      activeUsersLast24h: activeUsers || 0,
+      usage: this.buildUsageReport(tokenData)
+    };
+  }
+
+  /**
+   * Read every row of a query page by page, since a single select is cut
+   * off at the server's row limit. Queries must have a stable order.
+   */
+  private async fetchAllPages<T>(
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+      if (error) {
+        throw new Error(`Failed to load messages: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  /**
+   * Aggregate tokens and cost of assistant messages. Cost is taken from the
+   * value stored at save time, or priced now for rows saved without one.
+   */
+  private buildUsageReport(rows: UsageRow[]): UsageReport {
+    const report: UsageReport = { totalCostUsd: 0, byModel: {}, byProvider: {} };
+    const add = (group: Record<string, UsageBreakdown>, key: string, tokens: number, costUsd: number) => {
+      const entry = group[key] ??= { responses: 0, tokens: 0, costUsd: 0 };
+      entry.responses++;
+      entry.tokens += tokens;
+      entry.costUsd += costUsd;
     };
+
+    rows
+      .filter(row => row.model_used)
+      .forEach(row => {
+        const tokens = row.tokens_used || 0;
+        const costUsd = row.metadata?.cost_usd ?? calculateCost(row.model_used!, row.metadata?.usage) ?? 0;
+        report.totalCostUsd += costUsd;
+        add(report.byModel, row.model_used!, tokens, costUsd);
+        add(report.byProvider, row.provider_used || 'unknown', tokens, costUsd);
+      });
+
+    return report;
+  }
+
+  async getUsageCounter(subjectId: string, day: string): Promise<UsageCounter | null> {
+    const { data, error } = await this.supabase
+      .from('usage_counters')
+      .select('*')
+      .eq('subject_id', subjectId)
+      .eq('day', day)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load usage counter: ${error.message}`);
+    }
+
+    return data as UsageCounter | null;
+  }
+
+  async saveUsageCounter(subjectId: string, day: string, requests: number, tokensUsed: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('usage_counters')
+      .upsert({
+        subject_id: subjectId,
+        day,
+        requests,
+        tokens_used: tokensUsed,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'subject_id,day' });
+
+    if (error) {
+      throw new Error(`Failed to save usage counter: ${error.message}`);
+    }
   }
 
   async isHealthy(): Promise<boolean> {
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileHistoryStore, HistoryEntry, memberHistoryKey, parseHistoryKey } from './history-store';
+
+const entry = (content: string, timestamp: number, role: HistoryEntry['role'] = 'user'): HistoryEntry => ({ role, content, timestamp });
+
+/** Run a test against a store in a throwaway directory */
+const withStore = async (maxEntries: number, run: (store: FileHistoryStore, directory: string) => Promise<void>) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'history-store-'));
+  try {
+    await run(new FileHistoryStore(directory, maxEntries), directory);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+test('parseHistoryKey splits member keys back into chat and member', () => {
+  const key = memberHistoryKey('120363000000000000@g.us', '15550001111@c.us');
+
+  assert.deepEqual(parseHistoryKey(key), { chatId: '120363000000000000@g.us', member: '15550001111@c.us' });
+  assert.deepEqual(parseHistoryKey('15550001111@c.us'), { chatId: '15550001111@c.us' });
+});
+
+test('FileHistoryStore keeps the newest entries and filters by limit and time', async () => {
+  await withStore(3, async store => {
+    await store.append('chat@c.us', [entry('one', 1), entry('two', 2)]);
+    await store.append('chat@c.us', [entry('three', 3), entry('four', 4)]);
+
+    assert.deepEqual((await store.load('chat@c.us', 10)).map(e => e.content), ['two', 'three', 'four']);
+    assert.deepEqual((await store.load('chat@c.us', 2)).map(e => e.content), ['three', 'four']);
+    assert.deepEqual((await store.load('chat@c.us', 10, 3)).map(e => e.content), ['four']);
+    assert.deepEqual(await store.load('other@c.us', 10), []);
+  });
+});
+
+test('FileHistoryStore does not lose concurrent appends', async () => {
+  await withStore(100, async store => {
+    await Promise.all(Array.from({ length: 10 }, (_, index) => store.append('chat@c.us', [entry(`m${index}`, index + 1)])));
+
+    assert.equal((await store.load('chat@c.us', 100)).length, 10);
+  });
+});
+
+test('FileHistoryStore keeps member threads apart and clears history with its summary', async () => {
+  await withStore(100, async (store, directory) => {
+    const member = memberHistoryKey('group@g.us', 'a@c.us');
+    await store.append('group@g.us', [entry('shared', 1)]);
+    await store.append(member, [entry('mine', 1)]);
+    await store.saveSummary(member, { content: 'summary', coveredUntil: 1, updatedAt: 2 });
+
+    assert.deepEqual((await store.load(member, 10)).map(e => e.content), ['mine']);
+    assert.equal((await store.loadSummary(member))?.content, 'summary');
+    assert.ok(fs.readdirSync(directory).every(name => !name.includes(':')));
+
+    await store.clear(member);
+    assert.deepEqual(await store.load(member, 10), []);
+    assert.equal(await store.loadSummary(member), null);
+    assert.deepEqual((await store.load('group@g.us', 10)).map(e => e.content), ['shared']);
+  });
+});
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService, Conversation } from './database';
+
+export interface HistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+/** Rolling summary of turns that no longer fit the context window */
+export interface ConversationSummary {
+  content: string;
+  /** Timestamp of the newest message folded into the summary */
+  coveredUntil: number;
+  updatedAt: number;
+}
+
+export type HistoryStoreType = 'memory' | 'supabase' | 'file';
+
+/**
+ * Key of one member's own thread within a group chat. WhatsApp ids never
+ * contain a colon, so stores that persist per chat can split it again.
+ */
+export function memberHistoryKey(chatId: string, member: string): string {
+  return `${chatId}:${member}`;
+}
+
+export function parseHistoryKey(key: string): { chatId: string; member?: string } {
+  const separator = key.indexOf(':');
+  return separator === -1
+    ? { chatId: key }
+    : { chatId: key.slice(0, separator), member: key.slice(separator + 1) };
+}
+
+/**
+ * Persistence for per-chat conversation history. The chatbot keeps recent
+ * turns cached in memory and only reads a store when a chat is first seen.
+ */
+export interface HistoryStore {
+  readonly type: HistoryStoreType;
+  /** Most recent entries, optionally only those newer than `since` */
+  load(chatId: string, limit: number, since?: number): Promise<HistoryEntry[]>;
+  append(chatId: string, entries: HistoryEntry[]): Promise<void>;
+  loadSummary(chatId: string): Promise<ConversationSummary | null>;
+  saveSummary(chatId: string, summary: ConversationSummary): Promise<void>;
+  /** Forget the chat's history and summary */
+  clear(chatId: string): Promise<void>;
+}
+
+export class MemoryHistoryStore implements HistoryStore {
+  readonly type = 'memory';
+  private histories: Map<string, HistoryEntry[]> = new Map();
+  private summaries: Map<string, ConversationSummary> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  async load(chatId: string, limit: number, since = 0): Promise<HistoryEntry[]> {
+    return (this.histories.get(chatId) || []).filter(entry => entry.timestamp > since).slice(-limit);
+  }
+
+  async append(chatId: string, entries: HistoryEntry[]): Promise<void> {
+    const history = [...(this.histories.get(chatId) || []), ...entries];
+    this.histories.set(chatId, history.slice(-this.maxEntries));
+  }
+
+  async loadSummary(chatId: string): Promise<ConversationSummary | null> {
+    return this.summaries.get(chatId) || null;
+  }
+
+  async saveSummary(chatId: string, summary: ConversationSummary): Promise<void> {
+    this.summaries.set(chatId, summary);
+  }
+
+  async clear(chatId: string): Promise<void> {
+    this.histories.delete(chatId);
+    this.summaries.delete(chatId);
+  }
+}
+
+/**
+ * Reads history from the Supabase `messages` table. Messages are written by
+ * the chatbot's interaction logging (saveUserMessage/saveBotResponse), so
+ * append is a no-op here. The summary and clearing cut-off live in the
+ * conversation metadata; stored messages are never deleted.
+ *
+ * A member's thread in a group (see memberHistoryKey) is read from the
+ * group's conversation, filtered to messages tagged with that member, and
+ * keeps its own summary and cut-off under `metadata.members`.
+ */
+export class SupabaseHistoryStore implements HistoryStore {
+  readonly type = 'supabase';
+  private database: DatabaseService;
+
+  constructor(database: DatabaseService) {
+    this.database = database;
+  }
+
+  async load(key: string, limit: number, since = 0): Promise<HistoryEntry[]> {
+    const { chatId, member } = parseHistoryKey(key);
+    const conversation = await this.database.findConversationByChatId(chatId);
+    if (!conversation) {
+      return [];
+    }
+
+    const scope = this.getScope(conversation, member);
+    const clearedAt = scope.history_cleared_at
+      ? new Date(scope.history_cleared_at).getTime()
+      : 0;
+    const cutoff = Math.max(clearedAt, since);
+    const messages = await this.database.getConversationHistory(
+      conversation.id,
+      limit,
+      cutoff > 0 ? new Date(cutoff).toISOString() : undefined,
+      member
+    );
+
+    return messages
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => ({
+        role: message.role as HistoryEntry['role'],
+        content: message.content,
+        timestamp: new Date(message.timestamp).getTime()
+      }));
+  }
+
+  async append(): Promise<void> {
+    // Persisted through DatabaseService when the interaction is stored
+  }
+
+  async loadSummary(key: string): Promise<ConversationSummary | null> {
+    const { chatId, member } = parseHistoryKey(key);
+    const conversation = await this.database.findConversationByChatId(chatId);
+    const summary = conversation && this.getScope(conversation, member).summary;
+    if (!summary?.content) {
+      return null;
+    }
+
+    return {
+      content: summary.content,
+      coveredUntil: new Date(summary.covered_until).getTime(),
+      updatedAt: new Date(summary.updated_at).getTime()
+    };
+  }
+
+  async saveSummary(key: string, summary: ConversationSummary): Promise<void> {
+    const { chatId, member } = parseHistoryKey(key);
+    const conversation = await this.database.findConversationByChatId(chatId);
+    if (!conversation) {
+      return;
+    }
+
+    await this.database.updateConversationMetadata(conversation.id, {
+      summary: {
+        content: summary.content,
+        covered_until: new Date(summary.coveredUntil).toISOString(),
+        updated_at: new Date(summary.updatedAt).toISOString()
+      }
+    }, member);
+  }
+
+  async clear(key: string): Promise<void> {
+    const { chatId, member } = parseHistoryKey(key);
+    const conversation = await this.database.findConversationByChatId(chatId);
+    if (!conversation) {
+      return;
+    }
+
+    await this.database.updateConversationMetadata(conversation.id, {
+      history_cleared_at: new Date().toISOString(),
+      summary: null
+    }, member);
+  }
+
+  /** Metadata holding the summary and cut-off: the conversation's own, or a member's */
+  private getScope(conversation: Conversation, member?: string): Record<string, any> {
+    return (member ? conversation.metadata?.members?.[member] : conversation.metadata) || {};
+  }
+}
+
+/**
+ * Stores each chat's history as a JSON file for deployments without Supabase.
+ */
+export class FileHistoryStore implements HistoryStore {
+  readonly type = 'file';
+  private directory: string;
+  private maxEntries: number;
+  // Serialize writes per chat so concurrent appends don't clobber each other
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(directory: string, maxEntries = 100) {
+    this.directory = directory;
+    this.maxEntries = maxEntries;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  async load(chatId: string, limit: number, since = 0): Promise<HistoryEntry[]> {
+    await this.writes.get(chatId);
+    const history: HistoryEntry[] = await this.readJSON(this.getFilePath(chatId), []);
+    return history.filter(entry => entry.timestamp > since).slice(-limit);
+  }
+
+  async append(chatId: string, entries: HistoryEntry[]): Promise<void> {
+    await this.enqueue(chatId, async () => {
+      const existing: HistoryEntry[] = await this.readJSON(this.getFilePath(chatId), []);
+      const history = [...existing, ...entries].slice(-this.maxEntries);
+      await fs.promises.writeFile(this.getFilePath(chatId), JSON.stringify(history, null, 2), 'utf8');
+    });
+  }
+
+  async loadSummary(chatId: string): Promise<ConversationSummary | null> {
+    await this.writes.get(chatId);
+    return await this.readJSON<ConversationSummary | null>(this.getFilePath(chatId, 'summary'), null);
+  }
+
+  async saveSummary(chatId: string, summary: ConversationSummary): Promise<void> {
+    await this.enqueue(chatId, async () => {
+      await fs.promises.writeFile(this.getFilePath(chatId, 'summary'), JSON.stringify(summary, null, 2), 'utf8');
+    });
+  }
+
+  async clear(chatId: string): Promise<void> {
+    await this.enqueue(chatId, async () => {
+      await fs.promises.rm(this.getFilePath(chatId), { force: true });
+      await fs.promises.rm(this.getFilePath(chatId, 'summary'), { force: true });
+    });
+  }
+
+  private enqueue(chatId: string, operation: () => Promise<void>): Promise<void> {
+    const next = (this.writes.get(chatId) || Promise.resolve())
+      .catch(() => undefined)
+      .then(operation);
+
+    this.writes.set(chatId, next);
+    return next.finally(() => {
+      if (this.writes.get(chatId) === next) {
+        this.writes.delete(chatId);
+      }
+    });
+  }
+
+  private async readJSON<T>(filePath: string, fallback: T): Promise<T> {
+    try {
+      const raw = await fs.promises.readFile(filePath, 'utf8');
+      return JSON.parse(raw) ?? fallback;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return fallback;
+      }
+      throw new Error(`Failed to read ${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private getFilePath(chatId: string, suffix?: string): string {
+    const name = chatId.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    return path.join(this.directory, suffix ? `${name}.${suffix}.json` : `${name}.json`);
+  }
+}
+
+export function createHistoryStore(
+  type: HistoryStoreType,
+  options: { database?: DatabaseService; directory?: string; maxEntries?: number } = {}
+): HistoryStore {
+  switch (type) {
+    case 'supabase':
+      if (!options.database) {
+        throw new Error('Supabase history store requires a configured database');
+      }
+      return new SupabaseHistoryStore(options.database);
+    case 'file':
+      return new FileHistoryStore(options.directory || path.join(process.cwd(), 'data', 'history'), options.maxEntries);
+    case 'memory':
+      return new MemoryHistoryStore(options.maxEntries);
+    default:
+      throw new Error(`Unknown history store: ${type}`);
+  }
+}
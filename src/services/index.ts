@@ -1,4 +1,4 @@
-export { WhatsAppService } from './whatsapp';
+export { WhatsAppService, StreamingReply } from './whatsapp';
 export { DatabaseService } from './database';
 export { VisionService } from './vision';
 export { PDFService } from './pdf';
@@ -7,4 +7,14 @@ export { SupabaseEmbeddingsService } from './supabase-embeddings';
 export { HybridEmbeddingsService } from './hybrid-embeddings';
 export { VectorService } from './vector';
 export { RAGService } from './rag';
-export { MCPService, createDefaultMCPConfig } from './mcp';
\ No newline at end of file
+export { MCPService, createDefaultMCPConfig } from './mcp';
+export { ContextManager } from './context-manager';
+export { UserMemoryService } from './user-memory';
+export { MemoryHistoryStore, SupabaseHistoryStore, FileHistoryStore, createHistoryStore } from './history-store';
+export type { HistoryStore, HistoryEntry, HistoryStoreType, ConversationSummary } from './history-store';
+export { QuotaService } from './quota';
+export type { QuotaConfig, QuotaLimits, QuotaRole, QuotaSubject, QuotaDecision } from './quota';
+export { TranscriptionService, WhisperCppBackend, HttpTranscriptionBackend, createTranscriptionService } from './transcription';
+export type { TranscriptionBackend, TranscriptionConfig, TranscriptionResult } from './transcription';
+export { TTSService, LocalTTSBackend, HttpTTSBackend, createTTSService } from './tts';
+export type { TTSBackend, TTSConfig, VoiceReplyMode, SynthesizedAudio } from './tts';
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { MCPClient } from './mcp-client';
+import { StdioTransport } from './mcp-transports';
+
+const options = { clientName: 'test-client', clientVersion: '1.0.0', timeout: 5000 };
+
+const stubServer = () => new StdioTransport({
+  command: process.execPath,
+  args: [path.join(__dirname, '__fixtures__', 'stub-mcp-server.js')]
+});
+
+test('MCPClient round-trips initialize, tools/list and tools/call over stdio', async () => {
+  const client = new MCPClient(stubServer(), options);
+
+  try {
+    const serverInfo = await client.connect();
+    assert.equal(serverInfo.serverInfo.name, 'stub-mcp-server');
+    assert.ok(client.isConnected());
+
+    const tools = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name), ['echo']);
+
+    const result = await client.callTool('echo', { text: 'hello' });
+    assert.deepEqual(result.content, [{ type: 'text', text: 'hello' }]);
+
+    await assert.rejects(client.request('resources/list'), /Method not found/);
+  } finally {
+    await client.close();
+  }
+});
+
+test('MCPClient.connect rejects when the server command cannot be spawned', async () => {
+  const transport = new StdioTransport({ command: 'definitely-not-an-mcp-server', args: [] });
+  const client = new MCPClient(transport, options);
+
+  await assert.rejects(client.connect(), /ENOENT/);
+  assert.equal(client.isConnected(), false);
+});
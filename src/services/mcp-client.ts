@@ -0,0 +1,346 @@
+import { EventEmitter } from 'events';
+import type { MCPTransport } from './mcp-transports';
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JSONRPCNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: number | string;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCNotification | JSONRPCResponse;
+
+export interface MCPToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: {
+    type: string;
+    properties?: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface MCPContentBlock {
+  type: 'text' | 'image' | 'audio' | 'resource' | 'resource_link';
+  text?: string;
+  data?: string;
+  mimeType?: string;
+  resource?: {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+  };
+  uri?: string;
+  name?: string;
+}
+
+export interface MCPToolCallResult {
+  content: MCPContentBlock[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContentBlock;
+}
+
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+export interface MCPServerInfo {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: {
+    name: string;
+    version: string;
+  };
+  instructions?: string;
+}
+
+export interface MCPClientOptions {
+  clientName: string;
+  clientVersion: string;
+  timeout: number;
+}
+
+/**
+ * Minimal Model Context Protocol client speaking JSON-RPC over any
+ * MCPTransport (stdio, Streamable HTTP or legacy SSE).
+ */
+export class MCPClient extends EventEmitter {
+  private transport: MCPTransport;
+  private options: MCPClientOptions;
+  private nextId = 1;
+  private pending: Map<number | string, {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+  }> = new Map();
+  private serverInfo: MCPServerInfo | null = null;
+  private connected = false;
+  /** Set while reconnect() tries to resume, whose failure is handled there */
+  private resuming = false;
+
+  constructor(transport: MCPTransport, options: MCPClientOptions) {
+    super();
+    this.transport = transport;
+    this.options = options;
+
+    this.transport.on('message', (message: any) => this.handleMessage(message));
+    this.transport.on('stderr', (chunk: string) => this.emit('stderr', chunk));
+    this.transport.on('close', (reason?: Error) => {
+      if (!this.connected || this.resuming) return;
+      this.connected = false;
+      this.rejectAll(reason instanceof Error ? reason : new Error('MCP transport closed'));
+      this.emit('close', reason);
+    });
+  }
+
+  get transportKind(): MCPTransport['kind'] {
+    return this.transport.kind;
+  }
+
+  async connect(): Promise<MCPServerInfo> {
+    await this.transport.start();
+    this.connected = true;
+
+    try {
+      const result = await this.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: {
+          name: this.options.clientName,
+          version: this.options.clientVersion
+        }
+      });
+
+      this.serverInfo = result as MCPServerInfo;
+      this.transport.setProtocolVersion?.(this.serverInfo.protocolVersion);
+      await this.notify('notifications/initialized');
+
+      return this.serverInfo;
+    } catch (error) {
+      await this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Re-establish a dropped connection. Remote transports first try to resume
+   * the existing session; if the server no longer knows it, a fresh session
+   * is initialized.
+   */
+  async reconnect(): Promise<{ serverInfo: MCPServerInfo; resumed: boolean }> {
+    if (this.serverInfo && this.transport.canResume()) {
+      this.resuming = true;
+      try {
+        await this.transport.start();
+        this.connected = true;
+        await this.request('ping');
+        return { serverInfo: this.serverInfo, resumed: true };
+      } catch (error) {
+        this.emit('stderr', `Session resume failed, re-initializing: ${error instanceof Error ? error.message : error}`);
+        this.connected = false;
+        await this.transport.close();
+      } finally {
+        this.resuming = false;
+      }
+    }
+
+    this.transport.resetSession();
+    return { serverInfo: await this.connect(), resumed: false };
+  }
+
+  getServerInfo(): MCPServerInfo | null {
+    return this.serverInfo;
+  }
+
+  isConnected(): boolean {
+    return this.connected && !!this.serverInfo;
+  }
+
+  async listTools(): Promise<MCPToolDefinition[]> {
+    return await this.listAll<MCPToolDefinition>('tools/list', 'tools');
+  }
+
+  async listResources(): Promise<MCPResource[]> {
+    return await this.listAll<MCPResource>('resources/list', 'resources');
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const result = await this.request('resources/read', { uri });
+    return result.contents || [];
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    return await this.listAll<MCPPrompt>('prompts/list', 'prompts');
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+    return await this.request('prompts/get', {
+      name,
+      arguments: args
+    });
+  }
+
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.request(method, cursor ? { cursor } : {});
+      items.push(...(result[key] || []));
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    return items;
+  }
+
+  async callTool(name: string, args: Record<string, any>): Promise<MCPToolCallResult> {
+    return await this.request('tools/call', {
+      name,
+      arguments: args || {}
+    });
+  }
+
+  request(method: string, params?: Record<string, any>): Promise<any> {
+    if (!this.connected) {
+      return Promise.reject(new Error(`Cannot send '${method}': MCP server is not connected`));
+    }
+
+    const id = this.nextId++;
+    const message: JSONRPCRequest = { jsonrpc: '2.0', id, method };
+    if (params) {
+      message.params = params;
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request '${method}' timed out after ${this.options.timeout}ms`));
+      }, this.options.timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport.send(message).catch(error => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    const message: JSONRPCNotification = { jsonrpc: '2.0', method };
+    if (params) {
+      message.params = params;
+    }
+    await this.transport.send(message);
+  }
+
+  async close(options: { terminateSession?: boolean } = {}): Promise<void> {
+    this.connected = false;
+    this.rejectAll(new Error('MCP client closed'));
+    await this.transport.close();
+
+    if (options.terminateSession && this.transport.terminateSession) {
+      await this.transport.terminateSession().catch(error => {
+        this.emit('stderr', `Failed to terminate MCP session: ${error.message}`);
+      });
+    }
+  }
+
+  private handleMessage(message: any): void {
+    // Response to one of our requests
+    if (message.id !== undefined && (message.result !== undefined || message.error !== undefined) && !message.method) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+
+      clearTimeout(pending.timer);
+      this.pending.delete(message.id);
+
+      if (message.error) {
+        pending.reject(new Error(`MCP error ${message.error.code}: ${message.error.message}`));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server (e.g. ping) - we support no client features beyond ping
+    if (message.id !== undefined && message.method) {
+      const reply: JSONRPCResponse = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+
+      this.transport.send(reply).catch(error => {
+        this.emit('stderr', `Failed to answer server request '${message.method}': ${error.message}`);
+      });
+      return;
+    }
+
+    // Notification from the server
+    if (message.method) {
+      this.emit('notification', message);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    this.pending.clear();
+  }
+}
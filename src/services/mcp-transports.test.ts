@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MCPSessionExpiredError, SSETransport, StreamableHttpTransport } from './mcp-transports';
+
+/** Start a local server for one test and return its URL */
+const listen = async (handler: http.RequestListener): Promise<{ url: string; server: http.Server }> => {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`, server };
+};
+
+const closeServer = (server: http.Server) => new Promise<void>(resolve => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+});
+
+const ping = { jsonrpc: '2.0' as const, id: 1, method: 'ping' };
+
+test('StreamableHttpTransport fails only the request on HTTP errors and timeouts', async () => {
+  let requests = 0;
+  const { url, server } = await listen((req, res) => {
+    requests++;
+    if (requests === 1) {
+      res.writeHead(500).end('boom');
+    }
+    // Later requests never get an answer
+  });
+  const transport = new StreamableHttpTransport({ url, timeout: 200 });
+  let closed = false;
+  transport.on('close', () => { closed = true; });
+
+  try {
+    await assert.rejects(transport.send(ping), /MCP HTTP error 500/);
+    await assert.rejects(transport.send(ping), /MCP HTTP request failed/);
+    assert.equal(closed, false);
+  } finally {
+    await closeServer(server);
+  }
+});
+
+test('StreamableHttpTransport closes when the server forgets its session', async () => {
+  let requests = 0;
+  const { url, server } = await listen((req, res) => {
+    requests++;
+    if (requests === 1) {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} }));
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  const transport = new StreamableHttpTransport({ url, timeout: 1000 });
+  const closes: unknown[] = [];
+  transport.on('close', reason => closes.push(reason));
+
+  try {
+    await transport.send(ping);
+    assert.equal(transport.canResume(), true);
+
+    await assert.rejects(transport.send(ping), MCPSessionExpiredError);
+    assert.equal(closes.length, 1);
+    assert.ok(closes[0] instanceof MCPSessionExpiredError);
+    assert.equal(transport.canResume(), false);
+  } finally {
+    await closeServer(server);
+  }
+});
+
+test('SSETransport.start gives up on a server that never sends headers', async () => {
+  const { url, server } = await listen(() => {
+    // Accept the connection and never respond
+  });
+  const transport = new SSETransport({ url, timeout: 200 });
+
+  try {
+    await assert.rejects(transport.start(), /did not connect within 200ms/);
+  } finally {
+    await closeServer(server);
+  }
+});
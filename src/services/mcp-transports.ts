@@ -0,0 +1,414 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import axios, { AxiosResponse } from 'axios';
+import { parseEventStream, readStream } from '../utils/sse';
+import type { JSONRPCMessage } from './mcp-client';
+
+/**
+ * A bidirectional channel for JSON-RPC messages. Transports emit:
+ * - 'message' (JSONRPCMessage) for every message received from the server
+ * - 'close' when the underlying connection is gone
+ * - 'stderr' (string) for diagnostic output
+ */
+export interface MCPTransport extends EventEmitter {
+  readonly kind: 'stdio' | 'http' | 'sse';
+  start(): Promise<void>;
+  send(message: JSONRPCMessage): Promise<void>;
+  close(): Promise<void>;
+  /** Whether a dropped connection can be resumed without re-initializing */
+  canResume(): boolean;
+  /** Forget any server session so the next start() begins from scratch */
+  resetSession(): void;
+  setProtocolVersion?(version: string): void;
+  /** Explicitly end the server-side session, if the transport has one */
+  terminateSession?(): Promise<void>;
+}
+
+export class MCPSessionExpiredError extends Error {
+  constructor(message = 'MCP session expired') {
+    super(message);
+    this.name = 'MCPSessionExpiredError';
+  }
+}
+
+export interface StdioTransportOptions {
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+}
+
+/**
+ * Spawns the server as a child process and exchanges newline-delimited JSON
+ * over its stdin/stdout.
+ */
+export class StdioTransport extends EventEmitter implements MCPTransport {
+  readonly kind = 'stdio';
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private options: StdioTransportOptions;
+  private buffer = '';
+
+  constructor(options: StdioTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    const child = spawn(this.options.command, this.options.args, {
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    this.process = child;
+    this.buffer = '';
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => this.handleData(chunk));
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => this.emit('stderr', chunk));
+
+    child.on('error', (error) => {
+      this.emit('stderr', `Process error: ${error.message}`);
+      if (this.process === child) {
+        this.process = null;
+        this.emit('close', error);
+      }
+    });
+
+    child.on('exit', (code, signal) => {
+      if (this.process === child) {
+        this.process = null;
+        this.emit('close', new Error(`MCP server process exited (code: ${code}, signal: ${signal})`));
+      }
+    });
+
+    // Writes racing the process's exit fail with EPIPE; 'exit' reports that
+    child.stdin.on('error', (error) => this.emit('stderr', `stdin error: ${error.message}`));
+
+    // A command that cannot be spawned fails start() instead of the first request
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', reject);
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.process) {
+      throw new Error('MCP server process is not running');
+    }
+    this.process.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  async close(): Promise<void> {
+    if (!this.process) {
+      return;
+    }
+
+    const child = this.process;
+    this.process = null;
+
+    await new Promise<void>((resolve) => {
+      const killTimer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, 2000);
+
+      child.once('exit', () => {
+        clearTimeout(killTimer);
+        resolve();
+      });
+
+      child.stdin.end();
+      child.kill('SIGTERM');
+    });
+  }
+
+  canResume(): boolean {
+    return false;
+  }
+
+  resetSession(): void {}
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newlineIndex).trim();
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+
+      if (!line) continue;
+
+      try {
+        this.emit('message', JSON.parse(line));
+      } catch (error) {
+        this.emit('stderr', `Unparseable MCP message: ${line}`);
+      }
+    }
+  }
+}
+
+/** Refused connections in a row after which an HTTP server is treated as gone */
+const MAX_REFUSED_CONNECTIONS = 3;
+
+export interface HttpTransportOptions {
+  url: string;
+  headers?: Record<string, string>;
+  timeout: number;
+}
+
+/**
+ * Streamable HTTP transport: every client message is POSTed to the endpoint,
+ * the server answers with plain JSON or an event stream. The session id handed
+ * out on initialize is kept across reconnects so sessions survive drops.
+ */
+export class StreamableHttpTransport extends EventEmitter implements MCPTransport {
+  readonly kind = 'http';
+  private options: HttpTransportOptions;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private refusedConnections = 0;
+
+  constructor(options: HttpTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    // Nothing to open: each request carries its own HTTP round-trip
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      ...this.options.headers,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream'
+    };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+
+    let response: AxiosResponse<Readable>;
+    try {
+      response = await axios.post(this.options.url, message, {
+        headers,
+        responseType: 'stream',
+        timeout: this.options.timeout,
+        validateStatus: () => true
+      });
+    } catch (error) {
+      // A timeout or a single failed request only fails that request; the
+      // server is only considered gone once it keeps refusing connections
+      if (axios.isAxiosError(error) && error.code === 'ECONNREFUSED' && ++this.refusedConnections >= MAX_REFUSED_CONNECTIONS) {
+        this.refusedConnections = 0;
+        this.emit('close', error);
+      }
+      throw new Error(`MCP HTTP request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    this.refusedConnections = 0;
+
+    const sessionHeader = response.headers['mcp-session-id'];
+    if (typeof sessionHeader === 'string' && sessionHeader) {
+      this.sessionId = sessionHeader;
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      response.data.destroy();
+      this.sessionId = null;
+      const expired = new MCPSessionExpiredError();
+      this.emit('close', expired);
+      throw expired;
+    }
+
+    if (response.status >= 400) {
+      const body = await readStream(response.data);
+      throw new Error(`MCP HTTP error ${response.status}: ${body.substring(0, 200) || response.statusText}`);
+    }
+
+    const contentType = String(response.headers['content-type'] || '');
+
+    if (response.status === 202 || !contentType) {
+      response.data.resume();
+      return;
+    }
+
+    if (contentType.includes('text/event-stream')) {
+      // Responses for this request arrive as events; consume without blocking the caller
+      parseEventStream(response.data, (event) => {
+        if (event.event === 'message' || !event.event) {
+          this.emitPayload(event.data);
+        }
+      }).catch(error => this.emit('stderr', `MCP event stream error: ${error.message}`));
+      return;
+    }
+
+    this.emitPayload(await readStream(response.data));
+  }
+
+  async close(): Promise<void> {
+    // Sessions are intentionally left open on the server so they can be resumed
+  }
+
+  canResume(): boolean {
+    return !!this.sessionId;
+  }
+
+  resetSession(): void {
+    this.sessionId = null;
+    this.protocolVersion = null;
+  }
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async terminateSession(): Promise<void> {
+    if (!this.sessionId) {
+      return;
+    }
+
+    try {
+      await axios.delete(this.options.url, {
+        headers: { ...this.options.headers, 'Mcp-Session-Id': this.sessionId },
+        timeout: this.options.timeout,
+        validateStatus: () => true
+      });
+    } finally {
+      this.sessionId = null;
+    }
+  }
+
+  private emitPayload(payload: string): void {
+    if (!payload.trim()) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(payload);
+      (Array.isArray(parsed) ? parsed : [parsed]).forEach(message => this.emit('message', message));
+    } catch (error) {
+      this.emit('stderr', `Unparseable MCP message: ${payload.substring(0, 200)}`);
+    }
+  }
+}
+
+/**
+ * Legacy HTTP+SSE transport: a long-lived GET event stream delivers server
+ * messages and announces the endpoint that client messages are POSTed to.
+ */
+export class SSETransport extends EventEmitter implements MCPTransport {
+  readonly kind = 'sse';
+  private options: HttpTransportOptions;
+  private stream: Readable | null = null;
+  private endpoint: string | null = null;
+  private lastEventId: string | null = null;
+
+  constructor(options: HttpTransportOptions) {
+    super();
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    const headers: Record<string, string> = {
+      ...this.options.headers,
+      'Accept': 'text/event-stream'
+    };
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    // Bounds the wait for response headers only; the stream itself stays open
+    const controller = new AbortController();
+    const connectTimer = setTimeout(() => controller.abort(), this.options.timeout);
+    let response: AxiosResponse<Readable>;
+    try {
+      response = await axios.get<Readable>(this.options.url, {
+        headers,
+        responseType: 'stream',
+        signal: controller.signal,
+        validateStatus: () => true
+      });
+    } catch (error) {
+      throw controller.signal.aborted
+        ? new Error(`MCP SSE stream did not connect within ${this.options.timeout}ms`)
+        : error;
+    } finally {
+      clearTimeout(connectTimer);
+    }
+
+    if (response.status >= 400) {
+      const body = await readStream(response.data);
+      throw new Error(`MCP SSE error ${response.status}: ${body.substring(0, 200) || response.statusText}`);
+    }
+
+    const stream = response.data;
+    this.stream = stream;
+    this.endpoint = null;
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`MCP SSE endpoint was not announced within ${this.options.timeout}ms`));
+      }, this.options.timeout);
+
+      parseEventStream(stream, (event) => {
+        if (event.id) {
+          this.lastEventId = event.id;
+        }
+
+        if (event.event === 'endpoint') {
+          this.endpoint = new URL(event.data.trim(), this.options.url).toString();
+          clearTimeout(timer);
+          resolve();
+        } else if (event.event === 'message' || !event.event) {
+          try {
+            this.emit('message', JSON.parse(event.data));
+          } catch (error) {
+            this.emit('stderr', `Unparseable MCP message: ${event.data.substring(0, 200)}`);
+          }
+        }
+      })
+        .catch(error => this.emit('stderr', `MCP event stream error: ${error.message}`))
+        .finally(() => {
+          clearTimeout(timer);
+          if (this.stream === stream) {
+            this.stream = null;
+            this.emit('close', new Error('MCP SSE stream ended'));
+          }
+          reject(new Error('MCP SSE stream ended before the endpoint was announced'));
+        });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.stream || !this.endpoint) {
+      throw new Error('MCP SSE stream is not connected');
+    }
+
+    const response = await axios.post(this.endpoint, message, {
+      headers: { ...this.options.headers, 'Content-Type': 'application/json' },
+      timeout: this.options.timeout,
+      validateStatus: () => true
+    });
+
+    if (response.status >= 400) {
+      throw new Error(`MCP SSE POST error ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    this.endpoint = null;
+    stream?.destroy();
+  }
+
+  canResume(): boolean {
+    return !!this.lastEventId;
+  }
+
+  resetSession(): void {
+    this.lastEventId = null;
+  }
+}
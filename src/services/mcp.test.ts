@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { MCPService } from './mcp';
+
+const stubServer = (name: string) => ({
+  name,
+  enabled: true,
+  command: process.execPath,
+  args: [path.join(__dirname, '__fixtures__', 'stub-mcp-server.js'), name]
+});
+
+test('MCPService asks for a server when several offer the same prompt', async () => {
+  const service = new MCPService({ servers: [stubServer('alpha'), stubServer('beta')], timeout: 5000, retryAttempts: 0 });
+
+  try {
+    await service.initialize();
+
+    assert.equal(service.findPrompts('greet').length, 2);
+    assert.equal(service.getPromptDefinition('greet'), null);
+    await assert.rejects(service.getPrompt('greet', { who: 'Sam' }), /alpha__greet, beta__greet/);
+
+    assert.equal(service.getPromptDefinition('beta__greet')?.server, 'beta');
+    assert.deepEqual(await service.getPrompt('beta__greet', { who: 'Sam' }), [
+      { role: 'user', content: 'Say hello to Sam from beta' }
+    ]);
+  } finally {
+    await service.disconnect();
+  }
+});
+
+test('MCPService resolves a prompt offered by one server by its plain name', async () => {
+  const service = new MCPService({ servers: [stubServer('alpha')], timeout: 5000, retryAttempts: 0 });
+
+  try {
+    await service.initialize();
+
+    assert.equal(service.getPromptDefinition('greet')?.server, 'alpha');
+    assert.deepEqual(await service.getPrompt('greet', { who: 'Sam' }), [
+      { role: 'user', content: 'Say hello to Sam from alpha' }
+    ]);
+  } finally {
+    await service.disconnect();
+  }
+});
@@ -1,28 +1,81 @@
 import { EventEmitter } from 'events';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { Tool, ToolFunction } from '../types/tools';
+import { Tool, ToolFunction, ToolResult } from '../types/tools';
+import { ResponseAttachment } from '../types/whatsapp';
+import { MCPClient, MCPToolDefinition, MCPToolCallResult, MCPResource, MCPPrompt, MCPContentBlock } from './mcp-client';
+import { LLMMessage } from '../types/llm';
+import { MCPTransport, StdioTransport, StdioTransportOptions, StreamableHttpTransport, SSETransport } from './mcp-transports';
 
-const execAsync = promisify(exec);
-
-export interface MCPServer {
+interface MCPServerBase {
   name: string;
+  enabled: boolean;
+  /** Only expose these tools (original server-side names) */
+  allowTools?: string[];
+  /** Never expose these tools (original server-side names) */
+  denyTools?: string[];
+}
+
+export interface MCPStdioServer extends MCPServerBase {
+  transport?: 'stdio';
   command: string;
   args: string[];
   env?: Record<string, string>;
-  enabled: boolean;
 }
 
+export interface MCPRemoteServer extends MCPServerBase {
+  /** 'http' is Streamable HTTP, 'sse' the legacy HTTP+SSE transport */
+  transport: 'http' | 'sse';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type MCPServer = MCPStdioServer | MCPRemoteServer;
+
+export type MCPTransportType = 'stdio' | 'http' | 'sse';
+
 export interface MCPConfig {
   servers: MCPServer[];
   timeout?: number;
   retryAttempts?: number;
+  retryDelayMs?: number;
+  /** Prefix tool names with their server (e.g. filesystem__read_file); defaults to true */
+  namespaceTools?: boolean;
+}
+
+export interface MCPToolCollision {
+  name: string;
+  sources: string[];
+}
+
+export const MCP_TOOL_NAMESPACE_SEPARATOR = '__';
+
+export interface MCPServerResource extends MCPResource {
+  server: string;
+}
+
+export interface MCPServerPrompt extends MCPPrompt {
+  server: string;
+}
+
+export interface MCPResourceMatch {
+  server: string;
+  uri: string;
+  name: string;
+  content: string;
+  score: number;
 }
 
+export const isRemoteMCPServer = (server: MCPServer): server is MCPRemoteServer =>
+  server.transport === 'http' || server.transport === 'sse';
+
 export class MCPService extends EventEmitter {
   private servers: Map<string, MCPServer> = new Map();
   private connectedServers: Set<string> = new Set();
   private tools: Map<string, Tool> = new Map();
+  private resources: Map<string, MCPServerResource[]> = new Map();
+  private prompts: Map<string, MCPServerPrompt[]> = new Map();
+  private rawToolNames: Map<string, string[]> = new Map();
+  private clients: Map<string, MCPClient> = new Map();
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
   private config: MCPConfig;
 
   constructor(config: MCPConfig) {
@@ -30,6 +83,8 @@ export class MCPService extends EventEmitter {
     this.config = {
       timeout: 30000, // 30 seconds
       retryAttempts: 3,
+      retryDelayMs: 2000,
+      namespaceTools: true,
       ...config
     };
     
@@ -75,14 +130,31 @@ export class MCPService extends EventEmitter {
 
   private async connectToServer(server: MCPServer): Promise<void> {
     try {
-      console.log(`🔌 Connecting to MCP server: ${server.name}`);
-      
-      // For now, we'll implement a basic MCP client
-      // In a full implementation, you'd use the @modelcontextprotocol/sdk
-      
-      // Mock connection for demonstration
-      await this.mockMCPConnection(server);
-      
+      console.log(`🔌 Connecting to MCP server: ${server.name} (${server.transport || 'stdio'})`);
+
+      const client = new MCPClient(this.createTransport(server), {
+        clientName: 'neshauto',
+        clientVersion: '1.0.0',
+        timeout: this.config.timeout!
+      });
+      client.on('stderr', (chunk: string) => {
+        chunk.split('\n').filter(line => line.trim()).forEach(line => {
+          console.log(`📟 [mcp:${server.name}] ${line}`);
+        });
+      });
+      client.on('close', () => this.handleServerClosed(server.name, client));
+
+      const info = await client.connect();
+      console.log(`🤝 MCP server ${server.name} is ${info.serverInfo?.name || 'unknown'} v${info.serverInfo?.version || '?'} (protocol ${info.protocolVersion})`);
+
+      try {
+        await this.refreshServerCatalog(server.name, client);
+      } catch (error) {
+        await client.close({ terminateSession: true });
+        throw error;
+      }
+
+      this.clients.set(server.name, client);
       this.connectedServers.add(server.name);
       console.log(`✅ Connected to MCP server: ${server.name}`);
       
@@ -95,154 +167,218 @@ export class MCPService extends EventEmitter {
     }
   }
 
-  private async mockMCPConnection(server: MCPServer): Promise<void> {
-    // Mock MCP tools based on server name
-    const mockTools = this.getMockToolsForServer(server.name);
-    
-    mockTools.forEach(tool => {
+  private createTransport(server: MCPServer): MCPTransport {
+    if (isRemoteMCPServer(server)) {
+      const options = {
+        url: server.url,
+        timeout: this.config.timeout!,
+        ...(server.headers ? { headers: server.headers } : {})
+      };
+
+      return server.transport === 'sse'
+        ? new SSETransport(options)
+        : new StreamableHttpTransport(options);
+    }
+
+    const options: StdioTransportOptions = {
+      command: server.command,
+      args: server.args
+    };
+    if (server.env) {
+      options.env = server.env;
+    }
+    return new StdioTransport(options);
+  }
+
+  private async refreshServerCatalog(serverName: string, client: MCPClient): Promise<void> {
+    const capabilities = client.getServerInfo()?.capabilities || {};
+    const definitions = capabilities.tools ? await client.listTools() : [];
+    this.registerServerTools(serverName, definitions);
+
+    const resources = capabilities.resources ? await client.listResources() : [];
+    this.resources.set(serverName, resources.map(resource => ({ ...resource, server: serverName })));
+
+    const prompts = capabilities.prompts ? await client.listPrompts() : [];
+    this.prompts.set(serverName, prompts.map(prompt => ({ ...prompt, server: serverName })));
+
+    if (resources.length > 0 || prompts.length > 0) {
+      console.log(`📚 MCP server ${serverName} provides ${resources.length} resources and ${prompts.length} prompts`);
+    }
+  }
+
+  private registerServerTools(serverName: string, definitions: MCPToolDefinition[]): void {
+    this.removeServerTools(serverName);
+
+    const server = this.servers.get(serverName);
+    const exposed = definitions.filter(definition => this.isToolAllowed(server, definition.name));
+    this.rawToolNames.set(serverName, exposed.map(definition => definition.name));
+    const filteredCount = definitions.length - exposed.length;
+
+    const registered: string[] = [];
+    exposed.forEach(definition => {
+      const tool = this.createToolFromDefinition(serverName, definition);
+      const existing = this.tools.get(tool.name);
+
+      if (existing) {
+        console.warn(`⚠️  MCP tool ${tool.name} from ${serverName} conflicts with ${existing.category}; keeping the first one`);
+        return;
+      }
+
       this.tools.set(tool.name, tool);
+      registered.push(tool.name);
     });
+
+    console.log(`🧰 MCP server ${serverName} provides ${registered.length} tools${registered.length > 0 ? `: ${registered.join(', ')}` : ''}${filteredCount > 0 ? ` (${filteredCount} filtered by allow/deny list)` : ''}`);
   }
 
-  private getMockToolsForServer(serverName: string): Tool[] {
-    // Mock tools based on common MCP server types
-    switch (serverName) {
-      case 'filesystem':
-        return [
-          {
-            name: 'read_file',
-            description: 'Read the contents of a file',
-            parameters: {
-              type: 'object',
-              properties: {
-                path: {
-                  type: 'string',
-                  description: 'The path to the file to read'
-                }
-              },
-              required: ['path']
-            },
-            enabled: true,
-            category: 'filesystem',
-            version: '1.0.0',
-            async execute(params: any, context: any) {
-              // Mock file reading
-              return {
-                success: true,
-                data: { content: `Mock file content for ${params.path}` },
-                message: `File ${params.path} read successfully`
-              };
-            }
-          },
-          {
-            name: 'write_file',
-            description: 'Write content to a file',
-            parameters: {
-              type: 'object',
-              properties: {
-                path: {
-                  type: 'string',
-                  description: 'The path to the file to write'
-                },
-                content: {
-                  type: 'string',
-                  description: 'The content to write to the file'
-                }
-              },
-              required: ['path', 'content']
-            },
-            enabled: true,
-            category: 'filesystem',
-            version: '1.0.0',
-            async execute(params: any, context: any) {
-              // Mock file writing
-              return {
-                success: true,
-                data: { path: params.path, bytesWritten: params.content.length },
-                message: `File ${params.path} written successfully`
-              };
-            }
-          }
-        ];
-      
-      case 'database':
-        return [
-          {
-            name: 'execute_query',
-            description: 'Execute a database query',
-            parameters: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'The SQL query to execute'
-                },
-                parameters: {
-                  type: 'array',
-                  description: 'Query parameters',
-                  items: { type: 'string' }
-                }
-              },
-              required: ['query']
-            },
-            enabled: true,
-            category: 'database',
-            version: '1.0.0',
-            async execute(params: any, context: any) {
-              // Mock database query
-              return {
-                success: true,
-                data: { 
-                  rows: [{ id: 1, name: 'Mock Data' }], 
-                  rowCount: 1 
-                },
-                message: 'Query executed successfully'
-              };
-            }
-          }
-        ];
-      
-      case 'web':
-        return [
-          {
-            name: 'fetch_url',
-            description: 'Fetch content from a URL',
-            parameters: {
-              type: 'object',
-              properties: {
-                url: {
-                  type: 'string',
-                  description: 'The URL to fetch'
-                },
-                method: {
-                  type: 'string',
-                  description: 'HTTP method',
-                  enum: ['GET', 'POST', 'PUT', 'DELETE'],
-                  default: 'GET'
-                }
-              },
-              required: ['url']
-            },
-            enabled: true,
-            category: 'web',
-            version: '1.0.0',
-            async execute(params: any, context: any) {
-              // Mock web request
-              return {
-                success: true,
-                data: { 
-                  status: 200, 
-                  content: `Mock content from ${params.url}` 
-                },
-                message: `Successfully fetched ${params.url}`
-              };
-            }
-          }
-        ];
-      
-      default:
-        return [];
+  private isToolAllowed(server: MCPServer | undefined, toolName: string): boolean {
+    if (!server) return true;
+
+    if (server.allowTools && server.allowTools.length > 0 && !server.allowTools.includes(toolName)) {
+      return false;
+    }
+
+    return !server.denyTools?.includes(toolName);
+  }
+
+  /**
+   * Name under which a server tool is exposed to the LLM. Provider APIs only
+   * accept [a-zA-Z0-9_-]{1,64}, so names are sanitized and truncated.
+   */
+  private getExposedToolName(serverName: string, toolName: string): string {
+    const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const name = this.config.namespaceTools
+      ? `${sanitize(serverName)}${MCP_TOOL_NAMESPACE_SEPARATOR}${sanitize(toolName)}`
+      : sanitize(toolName);
+
+    return name.substring(0, 64);
+  }
+
+  private createToolFromDefinition(serverName: string, definition: MCPToolDefinition): Tool {
+    const service = this;
+
+    return {
+      name: this.getExposedToolName(serverName, definition.name),
+      description: definition.description || `${definition.name} (MCP server: ${serverName})`,
+      parameters: {
+        ...definition.inputSchema,
+        type: definition.inputSchema?.type || 'object'
+      },
+      enabled: true,
+      category: serverName,
+      async execute(params: any): Promise<ToolResult> {
+        const client = service.clients.get(serverName);
+        if (!client || !client.isConnected()) {
+          return {
+            success: false,
+            error: `MCP server '${serverName}' is not connected`
+          };
+        }
+
+        const result = await client.callTool(definition.name, params);
+        return service.convertToolCallResult(result);
+      }
+    };
+  }
+
+  private convertToolCallResult(result: MCPToolCallResult): ToolResult {
+    const text = (result.content || [])
+      .map(block => {
+        switch (block.type) {
+          case 'text':
+            return block.text || '';
+          case 'resource':
+            return block.resource?.text || `[resource: ${block.resource?.uri}]`;
+          case 'resource_link':
+            return `[resource: ${block.name || block.uri}]`;
+          default:
+            return `[${block.type} content${block.mimeType ? `: ${block.mimeType}` : ''}]`;
+        }
+      })
+      .filter(Boolean)
+      .join('\n');
+
+    if (result.isError) {
+      return {
+        success: false,
+        error: text || 'MCP tool reported an error'
+      };
     }
+
+    const attachments = (result.content || [])
+      .map(block => this.toAttachment(block))
+      .filter((attachment): attachment is ResponseAttachment => attachment !== null);
+
+    return {
+      success: true,
+      data: result.structuredContent || { content: text },
+      message: text,
+      ...(attachments.length > 0 && { attachments })
+    };
+  }
+
+  /** Image, audio and binary resource blocks are passed on to the user as files */
+  private toAttachment(block: MCPContentBlock): ResponseAttachment | null {
+    const data = block.type === 'resource' ? block.resource?.blob : block.data;
+    const mimetype = (block.type === 'resource' ? block.resource?.mimeType : block.mimeType) || 'application/octet-stream';
+    if (!data || (block.type !== 'image' && block.type !== 'audio' && block.type !== 'resource')) {
+      return null;
+    }
+
+    const filename = block.type === 'resource' ? block.resource?.uri.split('/').pop() : undefined;
+    return {
+      type: mimetype.startsWith('image/') ? 'image' : mimetype.startsWith('audio/') ? 'audio' : 'document',
+      data: Buffer.from(data, 'base64'),
+      mimetype,
+      ...(filename && { filename })
+    };
+  }
+
+  private handleServerClosed(serverName: string, client: MCPClient): void {
+    // Ignore close events from clients that were already replaced or shut down
+    if (this.clients.get(serverName) !== client) {
+      return;
+    }
+
+    this.connectedServers.delete(serverName);
+    this.removeServerTools(serverName);
+
+    console.warn(`⚠️  MCP server ${serverName} disconnected`);
+    this.emit('serverDisconnected', { serverName });
+
+    this.scheduleReconnect(serverName, 1);
+  }
+
+  private scheduleReconnect(serverName: string, attempt: number): void {
+    const server = this.servers.get(serverName);
+    const maxAttempts = this.config.retryAttempts || 0;
+
+    if (!server?.enabled || attempt > maxAttempts || this.reconnectTimers.has(serverName)) {
+      return;
+    }
+
+    const delay = this.config.retryDelayMs! * Math.pow(2, attempt - 1);
+    console.log(`🔁 Reconnecting to MCP server ${serverName} in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(serverName);
+      const reconnected = await this.reconnectServer(serverName);
+      if (!reconnected) {
+        this.scheduleReconnect(serverName, attempt + 1);
+      }
+    }, delay);
+
+    this.reconnectTimers.set(serverName, timer);
+  }
+
+  private removeServerTools(serverName: string): void {
+    Array.from(this.tools.entries())
+      .filter(([_, tool]) => tool.category === serverName)
+      .forEach(([name, _]) => this.tools.delete(name));
+
+    this.rawToolNames.delete(serverName);
+    this.resources.delete(serverName);
+    this.prompts.delete(serverName);
   }
 
   getAvailableTools(): ToolFunction[] {
@@ -275,19 +411,174 @@ export class MCPService extends EventEmitter {
     }
   }
 
+  getAvailableResources(): MCPServerResource[] {
+    return Array.from(this.resources.values()).flat();
+  }
+
+  async readResource(serverName: string, uri: string): Promise<string> {
+    const client = this.getConnectedClient(serverName);
+    const contents = await client.readResource(uri);
+
+    return contents
+      .map(item => item.text !== undefined ? item.text : `[binary resource ${item.uri}${item.mimeType ? ` (${item.mimeType})` : ''}]`)
+      .join('\n');
+  }
+
+  /**
+   * Rank resources by keyword overlap between the query and their name,
+   * description and URI, then read the best matches.
+   */
+  async findRelevantResources(query: string, limit: number = 3, maxChars: number = 4000): Promise<MCPResourceMatch[]> {
+    const queryTerms = this.tokenize(query);
+    if (queryTerms.size === 0) {
+      return [];
+    }
+
+    const ranked = this.getAvailableResources()
+      .map(resource => {
+        const resourceTerms = this.tokenize(`${resource.name} ${resource.title || ''} ${resource.description || ''} ${resource.uri}`);
+        const overlap = Array.from(queryTerms).filter(term => resourceTerms.has(term)).length;
+        return { resource, score: overlap / queryTerms.size };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const matches = await Promise.allSettled(ranked.map(async ({ resource, score }) => {
+      const content = await this.readResource(resource.server, resource.uri);
+      return {
+        server: resource.server,
+        uri: resource.uri,
+        name: resource.title || resource.name,
+        content: content.length > maxChars ? `${content.substring(0, maxChars)}\n...[truncated]` : content,
+        score
+      };
+    }));
+
+    return matches
+      .filter((match): match is PromiseFulfilledResult<MCPResourceMatch> => match.status === 'fulfilled')
+      .map(match => match.value);
+  }
+
+  getAvailablePrompts(): MCPServerPrompt[] {
+    return Array.from(this.prompts.values()).flat();
+  }
+
+  /** Prompt name prefixed with its server (e.g. github__summarize-pr), like namespaced tools */
+  getQualifiedPromptName(prompt: MCPServerPrompt): string {
+    return `${prompt.server}${MCP_TOOL_NAMESPACE_SEPARATOR}${prompt.name}`;
+  }
+
+  /**
+   * Prompts a name refers to: a qualified name picks one server's prompt, a
+   * plain name matches that prompt on every server offering it.
+   */
+  findPrompts(name: string): MCPServerPrompt[] {
+    const prompts = this.getAvailablePrompts();
+    const qualified = prompts.filter(prompt => this.getQualifiedPromptName(prompt) === name);
+    return qualified.length > 0 ? qualified : prompts.filter(prompt => prompt.name === name);
+  }
+
+  /** The prompt a name refers to, or null when it is unknown or offered by several servers */
+  getPromptDefinition(name: string): MCPServerPrompt | null {
+    const matches = this.findPrompts(name);
+    return matches.length === 1 ? matches[0]! : null;
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<LLMMessage[]> {
+    const matches = this.findPrompts(name);
+    if (matches.length > 1) {
+      throw new Error(`MCP prompt '${name}' is offered by several servers; use one of ${matches.map(prompt => this.getQualifiedPromptName(prompt)).join(', ')}`);
+    }
+
+    const prompt = matches[0];
+    if (!prompt) {
+      throw new Error(`MCP prompt '${name}' not found`);
+    }
+
+    const client = this.getConnectedClient(prompt.server);
+    const result = await client.getPrompt(prompt.name, args);
+
+    return result.messages.map(message => ({
+      role: message.role,
+      content: this.promptContentToText(message.content)
+    }));
+  }
+
+  private promptContentToText(content: MCPContentBlock): string {
+    switch (content.type) {
+      case 'text':
+        return content.text || '';
+      case 'resource':
+        return content.resource?.text || `[resource: ${content.resource?.uri}]`;
+      default:
+        return `[${content.type} content]`;
+    }
+  }
+
+  private getConnectedClient(serverName: string): MCPClient {
+    const client = this.clients.get(serverName);
+    if (!client || !client.isConnected()) {
+      throw new Error(`MCP server '${serverName}' is not connected`);
+    }
+    return client;
+  }
+
+  private tokenize(text: string): Set<string> {
+    return new Set(
+      text.toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(term => term.length > 2)
+    );
+  }
+
+  hasTool(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Report tool names offered by more than one source, based on the original
+   * (un-namespaced) names. With namespacing enabled these all coexist; without
+   * it, local tools shadow MCP tools and the first server wins among servers.
+   */
+  getToolCollisions(localToolNames: string[] = []): MCPToolCollision[] {
+    const sources: Map<string, string[]> = new Map();
+    const addSource = (name: string, source: string) => {
+      sources.set(name, [...(sources.get(name) || []), source]);
+    };
+
+    localToolNames.forEach(name => addSource(name, 'local'));
+    this.rawToolNames.forEach((names, serverName) => {
+      names.forEach(name => addSource(name, `mcp:${serverName}`));
+    });
+
+    return Array.from(sources.entries())
+      .filter(([_, toolSources]) => toolSources.length > 1)
+      .map(([name, toolSources]) => ({ name, sources: toolSources }));
+  }
+
+  isNamespacingTools(): boolean {
+    return !!this.config.namespaceTools;
+  }
+
   getConnectedServers(): string[] {
     return Array.from(this.connectedServers);
   }
 
-  getServerStatus(): Record<string, { connected: boolean; toolCount: number }> {
-    const status: Record<string, { connected: boolean; toolCount: number }> = {};
+  getServerStatus(): Record<string, { connected: boolean; toolCount: number; resourceCount: number; promptCount: number }> {
+    const status: Record<string, { connected: boolean; toolCount: number; resourceCount: number; promptCount: number }> = {};
     
     this.servers.forEach((server, name) => {
       const connected = this.connectedServers.has(name);
       const toolCount = Array.from(this.tools.values())
         .filter(tool => tool.category === name).length;
       
-      status[name] = { connected, toolCount };
+      status[name] = {
+        connected,
+        toolCount,
+        resourceCount: this.resources.get(name)?.length || 0,
+        promptCount: this.prompts.get(name)?.length || 0
+      };
     });
     
     return status;
@@ -297,8 +588,18 @@ export class MCPService extends EventEmitter {
     console.log('🔌 Disconnecting MCP servers...');
     
     // Clean up connections
+    this.reconnectTimers.forEach(timer => clearTimeout(timer));
+    this.reconnectTimers.clear();
+
+    const clients = Array.from(this.clients.values());
+    this.clients.clear();
+    await Promise.allSettled(clients.map(client => client.close({ terminateSession: true })));
+
     this.connectedServers.clear();
     this.tools.clear();
+    this.rawToolNames.clear();
+    this.resources.clear();
+    this.prompts.clear();
     
     console.log('✅ MCP Service disconnected');
     this.emit('disconnected');
@@ -311,6 +612,19 @@ export class MCPService extends EventEmitter {
     }
 
     try {
+      const client = this.clients.get(serverName);
+
+      // Remote servers keep their client so the existing session can be resumed
+      if (client && isRemoteMCPServer(server)) {
+        const { resumed } = await client.reconnect();
+        await this.refreshServerCatalog(serverName, client);
+        this.connectedServers.add(serverName);
+        console.log(`✅ ${resumed ? 'Resumed session with' : 'Re-initialized'} MCP server: ${serverName}`);
+        this.emit('serverConnected', { serverName, resumed });
+        return true;
+      }
+
+      await this.closeClient(serverName);
       await this.connectToServer(server);
       return true;
     } catch (error) {
@@ -333,25 +647,44 @@ export class MCPService extends EventEmitter {
     if (server) {
       server.enabled = false;
       this.connectedServers.delete(serverName);
+
+      const timer = this.reconnectTimers.get(serverName);
+      if (timer) {
+        clearTimeout(timer);
+        this.reconnectTimers.delete(serverName);
+      }
       
-      // Remove tools from this server
-      const toolsToRemove = Array.from(this.tools.entries())
-        .filter(([_, tool]) => tool.category === serverName)
-        .map(([name, _]) => name);
-      
-      toolsToRemove.forEach(name => this.tools.delete(name));
+      // Remove tools from this server and stop its process
+      this.removeServerTools(serverName);
+      this.closeClient(serverName).catch(error => {
+        console.error(`Failed to stop MCP server ${serverName}:`, error);
+      });
       
       return true;
     }
     return false;
   }
 
+  private async closeClient(serverName: string): Promise<void> {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      return;
+    }
+
+    this.clients.delete(serverName);
+    this.connectedServers.delete(serverName);
+    this.removeServerTools(serverName);
+    await client.close({ terminateSession: true });
+  }
+
   getStats() {
     return {
       totalServers: this.servers.size,
       connectedServers: this.connectedServers.size,
       totalTools: this.tools.size,
       enabledTools: Array.from(this.tools.values()).filter(t => t.enabled).length,
+      totalResources: this.getAvailableResources().length,
+      totalPrompts: this.getAvailablePrompts().length,
       serverStatus: this.getServerStatus()
     };
   }
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuotaConfig, QuotaService, QuotaSubject } from './quota';
+import { DatabaseService } from './database';
+
+const config: QuotaConfig = {
+  tiers: {
+    user: { maxRequests: 2, windowMs: 60000, dailyTokens: 100 },
+    admin: { maxRequests: 0, windowMs: 60000, dailyTokens: 0 }
+  },
+  group: { maxRequests: 3, windowMs: 60000, dailyTokens: 0 }
+};
+
+const user = (id: string): QuotaSubject => ({ id, kind: 'user', role: 'user' });
+const admin: QuotaSubject = { id: 'admin@c.us', kind: 'user', role: 'admin' };
+const group: QuotaSubject = { id: 'group@g.us', kind: 'group', role: 'user' };
+
+test('requests over the window limit are refused with a retry delay', async () => {
+  const quota = new QuotaService(config);
+
+  assert.equal((await quota.consume([user('a@c.us')])).allowed, true);
+  assert.equal((await quota.consume([user('a@c.us')])).allowed, true);
+
+  const refused = await quota.consume([user('a@c.us')]);
+  assert.equal(refused.allowed, false);
+  assert.equal(refused.reason, 'requests');
+  assert.equal(refused.limit, 2);
+  assert.ok(refused.retryAfterMs! > 0 && refused.retryAfterMs! <= 60000);
+});
+
+test('admins have their own unlimited tier', async () => {
+  const quota = new QuotaService(config);
+
+  for (let i = 0; i < 5; i++) {
+    assert.equal((await quota.consume([admin])).allowed, true);
+  }
+});
+
+test('a group budget is shared and a refusal counts against nobody', async () => {
+  const quota = new QuotaService(config);
+
+  await quota.consume([user('a@c.us'), group]);
+  await quota.consume([user('b@c.us'), group]);
+  await quota.consume([user('c@c.us'), group]);
+
+  const refused = await quota.consume([user('d@c.us'), group]);
+  assert.equal(refused.allowed, false);
+  assert.deepEqual(refused.subject, group);
+  assert.equal((await quota.getUsage(user('d@c.us'))).requestsInWindow, 0);
+});
+
+test('the daily token budget refuses requests until the next UTC day', async () => {
+  const quota = new QuotaService(config);
+
+  await quota.consume([user('a@c.us')]);
+  await quota.recordTokens([user('a@c.us')], 120);
+
+  const refused = await quota.consume([user('a@c.us')]);
+  assert.equal(refused.reason, 'tokens');
+  assert.equal(refused.limit, 100);
+  assert.ok(refused.retryAfterMs! > 0 && refused.retryAfterMs! <= 24 * 60 * 60 * 1000);
+});
+
+test('daily counters are loaded from and saved to the database', async () => {
+  const saved: Array<[string, number, number]> = [];
+  const database = {
+    getUsageCounter: async () => ({ subject_id: 'a@c.us', day: '', requests: 4, tokens_used: 90, updated_at: '' }),
+    saveUsageCounter: async (subjectId: string, _day: string, requests: number, tokensUsed: number) => {
+      saved.push([subjectId, requests, tokensUsed]);
+    }
+  } as unknown as DatabaseService;
+  const quota = new QuotaService(config, database);
+
+  assert.equal((await quota.getUsage(user('a@c.us'))).tokensToday, 90);
+
+  await quota.consume([user('a@c.us')]);
+  await quota.recordTokens([user('a@c.us')], 15);
+  await new Promise(resolve => setImmediate(resolve));
+
+  assert.deepEqual(saved.at(-1), ['a@c.us', 5, 105]);
+  assert.equal((await quota.consume([user('a@c.us')])).reason, 'tokens');
+});
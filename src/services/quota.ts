@@ -0,0 +1,229 @@
+import { DatabaseService } from './database';
+import { logger } from '../utils/logger';
+
+export type QuotaRole = 'admin' | 'user';
+
+export interface QuotaLimits {
+  /** Requests allowed per sliding window; 0 disables the check */
+  maxRequests: number;
+  windowMs: number;
+  /** LLM tokens allowed per UTC day; 0 disables the check */
+  dailyTokens: number;
+}
+
+export interface QuotaConfig {
+  tiers: Record<QuotaRole, QuotaLimits>;
+  /** Shared by everyone in a group chat, on top of each member's own limits */
+  group: QuotaLimits;
+}
+
+export interface QuotaSubject {
+  /** WhatsApp id of the user or group */
+  id: string;
+  kind: 'user' | 'group';
+  role: QuotaRole;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  /** The subject whose limit was hit */
+  subject?: QuotaSubject;
+  reason?: 'requests' | 'tokens';
+  limit?: number;
+  retryAfterMs?: number;
+}
+
+export interface QuotaUsage {
+  requestsInWindow: number;
+  tokensToday: number;
+  limits: QuotaLimits;
+}
+
+interface SubjectState {
+  /** Request times inside the current window */
+  timestamps: number[];
+  day: string;
+  requestsToday: number;
+  tokensToday: number;
+}
+
+/**
+ * Per-user and per-group quotas: a sliding request window plus a daily LLM
+ * token budget, with limits chosen by the sender's role. Daily counters are
+ * written through to the `usage_counters` table so budgets survive restarts;
+ * the short request window is kept in memory only.
+ */
+export class QuotaService {
+  private config: QuotaConfig;
+  private database: DatabaseService | null;
+  private states: Map<string, SubjectState> = new Map();
+  private loading: Map<string, Promise<SubjectState>> = new Map();
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(config: QuotaConfig, database?: DatabaseService) {
+    this.config = config;
+    this.database = database || null;
+  }
+
+  /**
+   * Check every subject and, when all are within their limits, count the
+   * request against each of them.
+   */
+  async consume(subjects: QuotaSubject[]): Promise<QuotaDecision> {
+    const states = await Promise.all(subjects.map(subject => this.getState(subject.id)));
+    const now = Date.now();
+
+    for (let i = 0; i < subjects.length; i++) {
+      const subject = subjects[i]!;
+      const state = states[i]!;
+      const limits = this.getLimits(subject);
+      this.pruneWindow(state, limits, now);
+
+      if (limits.maxRequests > 0 && state.timestamps.length >= limits.maxRequests) {
+        return {
+          allowed: false,
+          subject,
+          reason: 'requests',
+          limit: limits.maxRequests,
+          retryAfterMs: Math.max(0, state.timestamps[0]! + limits.windowMs - now)
+        };
+      }
+
+      if (limits.dailyTokens > 0 && state.tokensToday >= limits.dailyTokens) {
+        return {
+          allowed: false,
+          subject,
+          reason: 'tokens',
+          limit: limits.dailyTokens,
+          retryAfterMs: this.msUntilNextDay(now)
+        };
+      }
+    }
+
+    subjects.forEach((subject, i) => {
+      const state = states[i]!;
+      state.timestamps.push(now);
+      state.requestsToday++;
+      this.persist(subject.id);
+    });
+
+    return { allowed: true };
+  }
+
+  /** Charge tokens spent on a reply to every subject */
+  async recordTokens(subjects: QuotaSubject[], tokens: number): Promise<void> {
+    if (tokens <= 0) {
+      return;
+    }
+
+    for (const subject of subjects) {
+      const state = await this.getState(subject.id);
+      state.tokensToday += tokens;
+      this.persist(subject.id);
+    }
+  }
+
+  async getUsage(subject: QuotaSubject): Promise<QuotaUsage> {
+    const state = await this.getState(subject.id);
+    const limits = this.getLimits(subject);
+    this.pruneWindow(state, limits, Date.now());
+
+    return {
+      requestsInWindow: state.timestamps.length,
+      tokensToday: state.tokensToday,
+      limits
+    };
+  }
+
+  getLimits(subject: QuotaSubject): QuotaLimits {
+    return subject.kind === 'group' ? this.config.group : this.config.tiers[subject.role];
+  }
+
+  private async getState(subjectId: string): Promise<SubjectState> {
+    const today = this.today();
+    const state = this.states.get(subjectId);
+    if (state && state.day === today) {
+      return state;
+    }
+
+    const pending = this.loading.get(subjectId);
+    if (pending) {
+      return pending;
+    }
+
+    const load = (async (): Promise<SubjectState> => {
+      const fresh: SubjectState = {
+        timestamps: state?.timestamps || [],
+        day: today,
+        requestsToday: 0,
+        tokensToday: 0
+      };
+
+      if (this.database) {
+        try {
+          const counter = await this.database.getUsageCounter(subjectId, today);
+          if (counter) {
+            fresh.requestsToday = counter.requests;
+            fresh.tokensToday = counter.tokens_used;
+          }
+        } catch (error) {
+          logger.warning(`Could not load usage for ${subjectId}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      this.states.set(subjectId, fresh);
+      return fresh;
+    })();
+
+    this.loading.set(subjectId, load);
+    try {
+      return await load;
+    } finally {
+      this.loading.delete(subjectId);
+    }
+  }
+
+  /**
+   * Writes are chained per subject and always save the latest counters, so a
+   * slow write can never overwrite a newer one.
+   */
+  private persist(subjectId: string): void {
+    if (!this.database) {
+      return;
+    }
+
+    const database = this.database;
+    const previous = this.writes.get(subjectId) || Promise.resolve();
+    const write = previous.then(async () => {
+      const state = this.states.get(subjectId);
+      if (!state) return;
+
+      try {
+        await database.saveUsageCounter(subjectId, state.day, state.requestsToday, state.tokensToday);
+      } catch (error) {
+        logger.warning(`Could not save usage for ${subjectId}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    this.writes.set(subjectId, write);
+    write.finally(() => {
+      if (this.writes.get(subjectId) === write) {
+        this.writes.delete(subjectId);
+      }
+    });
+  }
+
+  private pruneWindow(state: SubjectState, limits: QuotaLimits, now: number): void {
+    state.timestamps = state.timestamps.filter(timestamp => now - timestamp < limits.windowMs);
+  }
+
+  private today(): string {
+    return new Date().toISOString().substring(0, 10);
+  }
+
+  private msUntilNextDay(now: number): number {
+    const midnight = new Date(now);
+    midnight.setUTCHours(24, 0, 0, 0);
+    return midnight.getTime() - now;
+  }
+}
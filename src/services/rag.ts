@@ -2,8 +2,10 @@ import { VectorService, SearchResult } from './vector';
 import { EmbeddingsService } from './embeddings';
 import { PDFService, PDFProcessingResult } from './pdf';
 import { VisionService } from './vision';
+import { MCPService } from './mcp';
+import { ContextManager } from './context-manager';
 import { BotMessage, MediaAttachment } from '../types/whatsapp';
-import { LLMMessage, LLMProvider, LLMGenerationOptions } from '../types/llm';
+import { LLMMessage, LLMProvider, LLMGenerationOptions, LLMResponse } from '../types/llm';
 import { logger } from '../utils/logger';
 import crypto from 'crypto';
 
@@ -18,6 +20,8 @@ export interface RAGResponse {
   answer: string;
   context: RAGContext;
   tokensUsed: number;
+  usage?: LLMResponse['usage'];
+  model?: string;
   sources: string[];
 }
 
@@ -33,6 +37,8 @@ export class RAGService {
   private vectorService: VectorService;
   private embeddingsService: EmbeddingsService;
   private llmProvider: LLMProvider;
+  private mcpService?: MCPService;
+  private contextManager?: ContextManager;
   private searchCache: Map<string, { results: SearchResult[], timestamp: number }> = new Map();
   private embeddingCache: Map<string, number[]> = new Map();
   private readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes
@@ -50,6 +56,43 @@ export class RAGService {
     setInterval(() => this.cleanCache(), 10 * 60 * 1000); // Every 10 minutes
   }
 
+  /**
+   * Answer with a different provider, e.g. after the chatbot switched providers at runtime.
+   */
+  setLLMProvider(llmProvider: LLMProvider): void {
+    this.llmProvider = llmProvider;
+  }
+
+  /**
+   * Use resources exposed by connected MCP servers as an additional knowledge source.
+   */
+  setMCPService(mcpService: MCPService): void {
+    this.mcpService = mcpService;
+  }
+
+  /**
+   * Trim conversation history to the model's token budget, counting the
+   * retrieved context that is injected into the system prompt.
+   */
+  setContextManager(contextManager: ContextManager): void {
+    this.contextManager = contextManager;
+  }
+
+  private fitHistory(history: LLMMessage[], systemPrompt: string | undefined, currentMessages: LLMMessage[]): LLMMessage[] {
+    if (!this.contextManager) {
+      return history;
+    }
+
+    const fit = this.contextManager.fitHistory(history, {
+      ...(systemPrompt && { systemPrompt }),
+      currentMessages
+    });
+    if (fit.dropped.length > 0) {
+      logger.rag(`Context budget: kept ${fit.messages.length}/${history.length} history messages (~${fit.usedTokens}/${fit.budget} tokens)`);
+    }
+    return fit.messages;
+  }
+
   async processDocument(
     userId: string,
     conversationId: string,
@@ -144,6 +187,8 @@ export class RAGService {
       similarityThreshold?: number;
       includeDocuments?: boolean;
       includeKnowledgeBase?: boolean;
+      /** Model, max tokens and temperature for the answer */
+      generationOptions?: LLMGenerationOptions;
     } = {}
   ): Promise<RAGResponse> {
     const {
@@ -151,7 +196,8 @@ export class RAGService {
       maxSources = 5,
       similarityThreshold = 0.7,
       includeDocuments = true,
-      includeKnowledgeBase = true
+      includeKnowledgeBase = true,
+      generationOptions = {}
     } = options;
 
     const searchStartTime = Date.now();
@@ -160,16 +206,20 @@ export class RAGService {
       logger.rag(`Generating RAG response for query: "${query.substring(0, 50)}..."`);
       
       // Search for relevant content
-      const relevantContent = await this.vectorService.searchSimilarContent(
-        query,
-        {
-          limit: maxSources,
-          threshold: similarityThreshold,
-          userId,
-          includeDocuments,
-          includeKnowledgeBase
-        }
-      );
+      const [vectorResults, resourceResults] = await Promise.all([
+        this.vectorService.searchSimilarContent(
+          query,
+          {
+            limit: maxSources,
+            threshold: similarityThreshold,
+            userId,
+            includeDocuments,
+            includeKnowledgeBase
+          }
+        ),
+        this.searchMCPResources(query)
+      ]);
+      const relevantContent = [...vectorResults, ...resourceResults];
 
       const searchTime = Date.now() - searchStartTime;
       logger.embeddingStats(`Found ${relevantContent.length} relevant sources in ${searchTime}ms`);
@@ -182,7 +232,8 @@ export class RAGService {
       const response = await this.generateContextualResponse(
         query,
         context,
-        conversationHistory
+        conversationHistory,
+        generationOptions
       );
 
       logger.embeddingSuccess(`RAG response generated: ${response.usage?.totalTokens || 0} tokens used`);
@@ -191,6 +242,8 @@ export class RAGService {
         answer: response.content,
         context,
         tokensUsed: response.usage?.totalTokens || 0,
+        ...(response.usage && { usage: response.usage }),
+        ...(response.model && { model: response.model }),
         sources: this.extractSources(relevantContent)
       };
 
@@ -203,19 +256,22 @@ export class RAGService {
   async handleMultimodalMessage(
     message: BotMessage,
     userId: string,
-    conversationHistory: LLMMessage[] = []
+    conversationHistory: LLMMessage[] = [],
+    generationOptions: LLMGenerationOptions = {}
   ): Promise<{
     response: string;
     documentProcessed?: DocumentProcessingResult;
     ragContext?: RAGContext;
     tokensUsed: number;
+    usage?: LLMResponse['usage'];
+    model?: string;
   }> {
     try {
       let documentProcessed: DocumentProcessingResult | undefined;
       let ragContext: RAGContext | undefined;
 
-      // Process attached media if present
-      if (message.hasMedia && message.media) {
+      // Store shared documents and images; stickers are only looked at
+      if (message.hasMedia && message.media && (message.media.type === 'document' || message.media.type === 'image')) {
         documentProcessed = await this.processDocument(
           userId,
           message.from, // Using from as conversation ID for now
@@ -232,24 +288,29 @@ export class RAGService {
         const ragResponse = await this.generateRAGResponse(
           message.content,
           userId,
-          { conversationHistory }
+          { conversationHistory, generationOptions }
         );
         
-        llmResponse = { content: ragResponse.answer, usage: { totalTokens: ragResponse.tokensUsed } };
+        llmResponse = {
+          content: ragResponse.answer,
+          ...(ragResponse.usage && { usage: ragResponse.usage }),
+          ...(ragResponse.model && { model: ragResponse.model })
+        };
         ragContext = ragResponse.context;
       } else {
         // Direct LLM response for simple queries
+        const userMessage: LLMMessage = {
+          role: 'user',
+          content: message.hasMedia && message.media 
+            ? VisionService.createMultimodalContent(message.content, message.media)
+            : message.content
+        };
         const messages: LLMMessage[] = [
-          ...conversationHistory,
-          {
-            role: 'user',
-            content: message.hasMedia && message.media 
-              ? VisionService.createMultimodalContent(message.content, message.media)
-              : message.content
-          }
+          ...this.fitHistory(conversationHistory, undefined, [userMessage]),
+          userMessage
         ];
 
-        llmResponse = await this.llmProvider.generateResponse(messages);
+        llmResponse = await this.llmProvider.generateResponse(messages, generationOptions);
       }
 
       // Add document processing info to response if applicable
@@ -262,7 +323,9 @@ export class RAGService {
 
       const result: any = {
         response: responseText,
-        tokensUsed: llmResponse.usage?.totalTokens || 0
+        tokensUsed: llmResponse.usage?.totalTokens || 0,
+        usage: llmResponse.usage,
+        model: llmResponse.model
       };
 
       if (documentProcessed) {
@@ -281,6 +344,33 @@ export class RAGService {
     }
   }
 
+  private async searchMCPResources(query: string): Promise<SearchResult[]> {
+    if (!this.mcpService || this.mcpService.getAvailableResources().length === 0) {
+      return [];
+    }
+
+    try {
+      const matches = await this.mcpService.findRelevantResources(query);
+      if (matches.length > 0) {
+        logger.rag(`Pulled ${matches.length} MCP resources into context: ${matches.map(m => m.name).join(', ')}`);
+      }
+
+      return matches.map(match => ({
+        content: match.content,
+        similarity: match.score,
+        metadata: {
+          title: match.name,
+          uri: match.uri,
+          server: match.server
+        },
+        source: 'mcp_resource' as const
+      }));
+    } catch (error) {
+      logger.warning(`MCP resource lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
+
   private shouldUseRAG(query: string): boolean {
     // Simple heuristics to determine if RAG should be used
     const ragKeywords = [
@@ -309,17 +399,20 @@ export class RAGService {
   private async generateContextualResponse(
     query: string,
     context: RAGContext,
-    conversationHistory: LLMMessage[]
-  ): Promise<{ content: string; usage?: { totalTokens: number } }> {
+    conversationHistory: LLMMessage[],
+    generationOptions: LLMGenerationOptions
+  ): Promise<LLMResponse> {
     // Build context string from relevant content
     const contextString = context.relevantContent.length > 0
       ? context.relevantContent
           .map((result, index) => {
             const source = result.source === 'document' 
               ? `Document: ${result.metadata.filename || 'Unknown'}`
-              : `Knowledge Base: ${result.metadata.title || 'Unknown'}`;
+              : result.source === 'mcp_resource'
+                ? `MCP Resource: ${result.metadata.title || result.metadata.uri} (${result.metadata.server})`
+                : `Knowledge Base: ${result.metadata.title || 'Unknown'}`;
             
-            return `[${index + 1}] ${source} (Similarity: ${(result.similarity * 100).toFixed(1)}%)\n${result.content}`;
+            return `[${index + 1}] ${source} (${result.source === 'mcp_resource' ? 'Keyword match' : 'Similarity'}: ${(result.similarity * 100).toFixed(1)}%)\n${result.content}`;
           })
           .join('\n\n---\n\n')
       : 'No relevant context found.';
@@ -338,19 +431,22 @@ Guidelines:
 4. Be concise but comprehensive
 5. If dealing with multiple sources, synthesize the information appropriately`;
 
+    const userMessage: LLMMessage = { role: 'user', content: query };
     const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...conversationHistory,
-      { role: 'user', content: query }
+      ...this.fitHistory(conversationHistory, systemPrompt, [userMessage]),
+      userMessage
     ];
 
-    return await this.llmProvider.generateResponse(messages);
+    return await this.llmProvider.generateResponse(messages, generationOptions);
   }
 
   private extractSources(relevantContent: SearchResult[]): string[] {
     return relevantContent.map(result => {
       if (result.source === 'document') {
         return result.metadata.filename || 'Unknown Document';
+      } else if (result.source === 'mcp_resource') {
+        return result.metadata.title || result.metadata.uri || 'MCP Resource';
       } else {
         return result.metadata.title || 'Knowledge Base';
       }
@@ -0,0 +1,204 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+import { MediaAttachment } from '../types';
+import { logger } from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  durationSeconds?: number;
+}
+
+export interface TranscriptionBackend {
+  readonly name: string;
+  transcribe(audio: Buffer, mimetype: string, language?: string): Promise<TranscriptionResult>;
+}
+
+export type TranscriptionBackendType = 'local' | 'http';
+
+export interface TranscriptionConfig {
+  backend: TranscriptionBackendType;
+  /** Spoken language hint (ISO 639-1); detected automatically when omitted */
+  language?: string;
+  timeoutMs: number;
+  /** Audio larger than this is not transcribed */
+  maxBytes: number;
+  local?: {
+    binary: string;
+    model: string;
+    ffmpeg: string;
+    threads?: number;
+  };
+  http?: {
+    url: string;
+    apiKey?: string;
+    model: string;
+  };
+}
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/amr': 'amr'
+};
+
+function extensionFor(mimetype: string): string {
+  // WhatsApp voice notes arrive as "audio/ogg; codecs=opus"
+  return AUDIO_EXTENSIONS[mimetype.split(';')[0]!.trim().toLowerCase()] || 'ogg';
+}
+
+/**
+ * Runs a local whisper.cpp build. Audio is converted to the 16 kHz mono WAV
+ * whisper.cpp expects with ffmpeg, then transcribed to a text file.
+ */
+export class WhisperCppBackend implements TranscriptionBackend {
+  readonly name = 'whisper.cpp';
+  private options: NonNullable<TranscriptionConfig['local']>;
+  private timeoutMs: number;
+
+  constructor(options: NonNullable<TranscriptionConfig['local']>, timeoutMs: number) {
+    this.options = options;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async transcribe(audio: Buffer, mimetype: string, language?: string): Promise<TranscriptionResult> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+    const inputPath = path.join(workDir, `input.${extensionFor(mimetype)}`);
+    const wavPath = path.join(workDir, 'input.wav');
+    const outputBase = path.join(workDir, 'transcript');
+
+    try {
+      await fs.promises.writeFile(inputPath, audio);
+
+      await execFileAsync(this.options.ffmpeg, [
+        '-y', '-loglevel', 'error',
+        '-i', inputPath,
+        '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+        wavPath
+      ], { timeout: this.timeoutMs });
+
+      await execFileAsync(this.options.binary, [
+        '-m', this.options.model,
+        '-f', wavPath,
+        '-l', language || 'auto',
+        '-t', String(this.options.threads ?? Math.max(1, os.cpus().length - 1)),
+        '-nt',
+        '-otxt',
+        '-of', outputBase
+      ], { timeout: this.timeoutMs, maxBuffer: 10 * 1024 * 1024 });
+
+      const text = await fs.promises.readFile(`${outputBase}.txt`, 'utf8');
+      return { text: text.replace(/\s+/g, ' ').trim(), ...(language && { language }) };
+    } catch (error) {
+      throw new Error(`whisper.cpp transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Posts audio to an OpenAI-compatible /audio/transcriptions endpoint
+ * (OpenAI, Groq, a whisper.cpp or faster-whisper server, ...).
+ */
+export class HttpTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'http';
+  private options: NonNullable<TranscriptionConfig['http']>;
+  private timeoutMs: number;
+
+  constructor(options: NonNullable<TranscriptionConfig['http']>, timeoutMs: number) {
+    this.options = options;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async transcribe(audio: Buffer, mimetype: string, language?: string): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimetype }), `voice.${extensionFor(mimetype)}`);
+    form.append('model', this.options.model);
+    form.append('response_format', 'verbose_json');
+    if (language) {
+      form.append('language', language);
+    }
+
+    try {
+      const response = await axios.post(this.options.url, form, {
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+        timeout: this.timeoutMs
+      });
+
+      const data = typeof response.data === 'string' ? { text: response.data } : response.data;
+      return {
+        text: String(data.text || '').trim(),
+        ...(data.language && { language: data.language }),
+        ...(typeof data.duration === 'number' && { durationSeconds: data.duration })
+      };
+    } catch (error) {
+      const detail = axios.isAxiosError(error)
+        ? error.response?.data?.error?.message || error.message
+        : error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Transcription API error: ${detail}`);
+    }
+  }
+}
+
+/**
+ * Turns voice notes and audio messages into text with a pluggable backend.
+ */
+export class TranscriptionService {
+  private backend: TranscriptionBackend;
+  private config: TranscriptionConfig;
+
+  constructor(backend: TranscriptionBackend, config: TranscriptionConfig) {
+    this.backend = backend;
+    this.config = config;
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  static isAudio(media?: MediaAttachment): boolean {
+    return media?.type === 'audio';
+  }
+
+  async transcribe(media: MediaAttachment): Promise<TranscriptionResult> {
+    if (!TranscriptionService.isAudio(media)) {
+      throw new Error(`Cannot transcribe ${media.type} attachments`);
+    }
+
+    if (media.data.length > this.config.maxBytes) {
+      throw new Error(`Audio is too large to transcribe (${Math.round(media.data.length / 1024)} KB)`);
+    }
+
+    const startTime = Date.now();
+    const result = await this.backend.transcribe(media.data, media.mimetype || 'audio/ogg', this.config.language);
+    logger.info(`Transcribed ${Math.round(media.data.length / 1024)} KB of audio with ${this.backend.name} in ${Date.now() - startTime}ms`);
+
+    return result;
+  }
+}
+
+export function createTranscriptionService(config: TranscriptionConfig): TranscriptionService {
+  if (config.backend === 'local') {
+    if (!config.local) {
+      throw new Error('Local transcription requires a whisper.cpp binary and model');
+    }
+    return new TranscriptionService(new WhisperCppBackend(config.local, config.timeoutMs), config);
+  }
+
+  if (!config.http) {
+    throw new Error('HTTP transcription requires an endpoint URL');
+  }
+  return new TranscriptionService(new HttpTranscriptionBackend(config.http, config.timeoutMs), config);
+}
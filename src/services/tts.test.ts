@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TTSService } from './tts';
+
+test('toSpeechText drops markdown markers and emoji', () => {
+  assert.equal(TTSService.toSpeechText('🌤️ *Sunny* and _warm_ in ~Oslo~ today! 😎'), 'Sunny and warm in Oslo today!');
+  assert.equal(TTSService.toSpeechText('# Title\n> quoted `value`'), 'Title\nquoted value');
+});
+
+test('toSpeechText replaces code blocks and links', () => {
+  assert.equal(
+    TTSService.toSpeechText('Run this:\n```bash\nnpm install\n```\nDocs at https://example.com/docs?page=1 for more.'),
+    'Run this:\n(code omitted)\nDocs at link for more.'
+  );
+});
+
+test('toSpeechText collapses spacing and blank lines', () => {
+  assert.equal(TTSService.toSpeechText('  One   two\n\n\n  three  '), 'One two\nthree');
+});
@@ -0,0 +1,263 @@
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+import { ResponseAttachment } from '../types';
+import { logger } from '../utils/logger';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * When replies are spoken:
+ * - 'auto': voice notes are answered with a voice note
+ * - 'always': every chat reply is a voice note
+ * - 'off': always text
+ */
+export type VoiceReplyMode = 'auto' | 'always' | 'off';
+
+export interface SynthesizedAudio {
+  data: Buffer;
+  mimetype: string;
+}
+
+export interface TTSBackend {
+  readonly name: string;
+  synthesize(text: string, voice?: string): Promise<SynthesizedAudio>;
+}
+
+export type TTSBackendType = 'local' | 'http';
+
+export interface TTSConfig {
+  backend: TTSBackendType;
+  /** Voice name passed to the backend (e.g. "alloy", or an espeak voice such as "en-us") */
+  voice?: string;
+  /** Replies longer than this are sent as text */
+  maxChars: number;
+  timeoutMs: number;
+  /** Used to encode audio to OGG/Opus, the format WhatsApp plays as a voice note */
+  ffmpeg: string;
+  /** Mode for users who have not chosen one with /voice */
+  defaultMode: VoiceReplyMode;
+  local?: {
+    engine: 'piper' | 'espeak';
+    binary: string;
+    /** Piper voice model (.onnx) */
+    model?: string;
+  };
+  http?: {
+    url: string;
+    apiKey?: string;
+    model: string;
+  };
+}
+
+/**
+ * Run a command that reads its input from stdin, failing on a non-zero exit
+ * or when it takes longer than the timeout.
+ */
+function runWithInput(binary: string, args: string[], input: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${binary} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${binary} exited with code ${code}: ${stderr.trim().substring(0, 200)}`));
+      }
+    });
+
+    // A process that exits early closes stdin; the exit code reports the failure
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Runs a local speech engine: piper (neural voices, text on stdin) or
+ * espeak-ng. Both write a WAV file.
+ */
+export class LocalTTSBackend implements TTSBackend {
+  readonly name: string;
+  private options: NonNullable<TTSConfig['local']>;
+  private timeoutMs: number;
+
+  constructor(options: NonNullable<TTSConfig['local']>, timeoutMs: number) {
+    this.options = options;
+    this.timeoutMs = timeoutMs;
+    this.name = options.engine;
+  }
+
+  async synthesize(text: string, voice?: string): Promise<SynthesizedAudio> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tts-'));
+    const wavPath = path.join(workDir, 'speech.wav');
+
+    try {
+      if (this.options.engine === 'piper') {
+        if (!this.options.model) {
+          throw new Error('piper requires a voice model');
+        }
+        await runWithInput(this.options.binary, ['--model', this.options.model, '--output_file', wavPath], text, this.timeoutMs);
+      } else {
+        await runWithInput(this.options.binary, [...(voice ? ['-v', voice] : []), '--stdin', '-w', wavPath], text, this.timeoutMs);
+      }
+
+      return { data: await fs.promises.readFile(wavPath), mimetype: 'audio/wav' };
+    } catch (error) {
+      throw new Error(`${this.name} speech synthesis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Posts text to an OpenAI-compatible /audio/speech endpoint, asking for
+ * Opus so no re-encoding is needed when the server supports it.
+ */
+export class HttpTTSBackend implements TTSBackend {
+  readonly name = 'http';
+  private options: NonNullable<TTSConfig['http']>;
+  private timeoutMs: number;
+
+  constructor(options: NonNullable<TTSConfig['http']>, timeoutMs: number) {
+    this.options = options;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async synthesize(text: string, voice?: string): Promise<SynthesizedAudio> {
+    try {
+      const response = await axios.post(this.options.url, {
+        model: this.options.model,
+        input: text,
+        voice: voice || 'alloy',
+        response_format: 'opus'
+      }, {
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+        responseType: 'arraybuffer',
+        timeout: this.timeoutMs
+      });
+
+      return {
+        data: Buffer.from(response.data),
+        mimetype: String(response.headers['content-type'] || 'audio/ogg')
+      };
+    } catch (error) {
+      let detail = error instanceof Error ? error.message : 'Unknown error';
+      if (axios.isAxiosError(error) && error.response?.data) {
+        try {
+          detail = JSON.parse(Buffer.from(error.response.data).toString('utf8')).error?.message || detail;
+        } catch {
+          // Not a JSON error body
+        }
+      }
+      throw new Error(`Speech API error: ${detail}`);
+    }
+  }
+}
+
+/**
+ * Turns reply text into WhatsApp voice notes (OGG/Opus) with a pluggable
+ * speech backend.
+ */
+export class TTSService {
+  private backend: TTSBackend;
+  private config: TTSConfig;
+
+  constructor(backend: TTSBackend, config: TTSConfig) {
+    this.backend = backend;
+    this.config = config;
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  get defaultMode(): VoiceReplyMode {
+    return this.config.defaultMode;
+  }
+
+  /**
+   * Strip what should not be read aloud: code blocks, links, markdown
+   * markers and emoji.
+   */
+  static toSpeechText(text: string): string {
+    return text
+      .replace(/```[\s\S]*?```/g, ' (code omitted) ')
+      .replace(/https?:\/\/\S+/g, 'link')
+      .replace(/[*_~`#>]/g, '')
+      .replace(/\p{Extended_Pictographic}\uFE0F?/gu, '')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n[\n ]*/g, '\n')
+      .trim();
+  }
+
+  async synthesize(text: string): Promise<ResponseAttachment> {
+    if (text.length > this.config.maxChars) {
+      throw new Error(`Text is too long to speak (${text.length} characters)`);
+    }
+
+    const startTime = Date.now();
+    const audio = await this.backend.synthesize(text, this.config.voice);
+    const data = /ogg|opus/i.test(audio.mimetype) ? audio.data : await this.encodeOggOpus(audio.data);
+    logger.info(`Synthesized ${text.length} characters with ${this.backend.name} in ${Date.now() - startTime}ms`);
+
+    return {
+      type: 'audio',
+      data,
+      mimetype: 'audio/ogg; codecs=opus',
+      filename: 'reply.ogg',
+      voice: true
+    };
+  }
+
+  private async encodeOggOpus(audio: Buffer): Promise<Buffer> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'tts-'));
+    const inputPath = path.join(workDir, 'input');
+    const outputPath = path.join(workDir, 'voice.ogg');
+
+    try {
+      await fs.promises.writeFile(inputPath, audio);
+      await execFileAsync(this.config.ffmpeg, [
+        '-y', '-loglevel', 'error',
+        '-i', inputPath,
+        '-ac', '1', '-ar', '48000',
+        '-c:a', 'libopus', '-b:a', '32k', '-application', 'voip',
+        outputPath
+      ], { timeout: this.config.timeoutMs });
+
+      return await fs.promises.readFile(outputPath);
+    } catch (error) {
+      throw new Error(`Could not encode voice note: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
+
+export function createTTSService(config: TTSConfig): TTSService {
+  if (config.backend === 'local') {
+    if (!config.local) {
+      throw new Error('Local speech synthesis requires piper or espeak-ng');
+    }
+    return new TTSService(new LocalTTSBackend(config.local, config.timeoutMs), config);
+  }
+
+  if (!config.http) {
+    throw new Error('HTTP speech synthesis requires an endpoint URL');
+  }
+  return new TTSService(new HttpTTSBackend(config.http, config.timeoutMs), config);
+}
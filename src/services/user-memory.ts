@@ -0,0 +1,247 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { EmbeddingsService } from './embeddings';
+import { logger } from '../utils/logger';
+
+export interface UserFact {
+  id: string;
+  user_id: string;
+  content: string;
+  category?: string;
+  embedding?: number[];
+  created_at: string;
+  updated_at: string;
+  metadata: Record<string, any>;
+}
+
+export interface RelevantFact {
+  fact: UserFact;
+  score: number;
+}
+
+/** Facts at least this similar to a new one are treated as the same fact */
+const DUPLICATE_SIMILARITY = 0.92;
+const MAX_FACTS_PER_USER = 100;
+
+/**
+ * Long-term memory of facts users asked the bot to remember (timezone,
+ * language, preferences...). Facts live in the `user_facts` table keyed by
+ * `users.id`; relevance is ranked locally by cosine similarity of their
+ * embeddings, falling back to keyword overlap without an embeddings service.
+ */
+export class UserMemoryService {
+  private supabase: SupabaseClient;
+  private embeddings: EmbeddingsService | null;
+  private factCache: Map<string, UserFact[]> = new Map();
+
+  constructor(supabase: SupabaseClient, embeddingsService?: EmbeddingsService) {
+    this.supabase = supabase;
+    this.embeddings = embeddingsService || null;
+  }
+
+  async listFacts(userId: string): Promise<UserFact[]> {
+    const cached = this.factCache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_facts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load user facts: ${error.message}`);
+    }
+
+    const facts = (data || []).map(row => this.parseFact(row));
+    this.factCache.set(userId, facts);
+    return facts;
+  }
+
+  /**
+   * Store a fact, replacing an existing one that says nearly the same thing.
+   */
+  async rememberFact(userId: string, content: string, category?: string): Promise<{ fact: UserFact; updated: boolean }> {
+    const text = content.trim();
+    if (!text) {
+      throw new Error('Fact cannot be empty');
+    }
+
+    const facts = await this.listFacts(userId);
+    const embedding = await this.embed(text);
+    const duplicate = embedding
+      ? this.rank(facts, embedding, text).find(match => match.score >= DUPLICATE_SIMILARITY)?.fact
+      : facts.find(fact => fact.content.toLowerCase() === text.toLowerCase());
+
+    if (duplicate) {
+      const { data, error } = await this.supabase
+        .from('user_facts')
+        .update({
+          content: text,
+          category: category || duplicate.category,
+          embedding,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', duplicate.id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update user fact: ${error.message}`);
+      }
+
+      this.factCache.delete(userId);
+      return { fact: this.parseFact(data), updated: true };
+    }
+
+    if (facts.length >= MAX_FACTS_PER_USER) {
+      throw new Error(`Memory is full (${MAX_FACTS_PER_USER} facts). Forget something first.`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('user_facts')
+      .insert({
+        user_id: userId,
+        content: text,
+        category,
+        embedding,
+        metadata: {}
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save user fact: ${error.message}`);
+    }
+
+    this.factCache.delete(userId);
+    logger.info(`Remembered fact for user ${userId}: ${text.substring(0, 60)}`);
+    return { fact: this.parseFact(data), updated: false };
+  }
+
+  /**
+   * Forget a fact by id, or the fact that best matches a description.
+   */
+  async forgetFact(userId: string, idOrDescription: string): Promise<UserFact | null> {
+    const facts = await this.listFacts(userId);
+    let target = facts.find(fact => fact.id === idOrDescription);
+
+    if (!target) {
+      const matches = await this.findRelevantFacts(userId, idOrDescription, 1, 0.5);
+      target = matches[0]?.fact;
+    }
+
+    if (!target) {
+      return null;
+    }
+
+    const { error } = await this.supabase
+      .from('user_facts')
+      .delete()
+      .eq('id', target.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to delete user fact: ${error.message}`);
+    }
+
+    this.factCache.delete(userId);
+    return target;
+  }
+
+  async forgetAll(userId: string): Promise<number> {
+    const facts = await this.listFacts(userId);
+
+    const { error } = await this.supabase
+      .from('user_facts')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to delete user facts: ${error.message}`);
+    }
+
+    this.factCache.delete(userId);
+    return facts.length;
+  }
+
+  async findRelevantFacts(userId: string, query: string, limit = 5, threshold = 0.25): Promise<RelevantFact[]> {
+    const facts = await this.listFacts(userId);
+    if (facts.length === 0 || !query.trim()) {
+      return [];
+    }
+
+    const embedding = await this.embed(query);
+    return this.rank(facts, embedding, query)
+      .filter(match => match.score >= threshold)
+      .slice(0, limit);
+  }
+
+  private rank(facts: UserFact[], queryEmbedding: number[] | null, query: string): RelevantFact[] {
+    return facts
+      .map(fact => ({
+        fact,
+        score: queryEmbedding && fact.embedding
+          ? this.cosineSimilarity(queryEmbedding, fact.embedding)
+          : this.keywordOverlap(query, fact.content)
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private async embed(text: string): Promise<number[] | null> {
+    if (!this.embeddings) {
+      return null;
+    }
+
+    try {
+      return (await this.embeddings.generateEmbedding(text)).embedding;
+    } catch (error) {
+      logger.warning(`Fact embedding failed, using keyword matching: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) {
+      return 0;
+    }
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i]! * b[i]!;
+      normA += a[i]! * a[i]!;
+      normB += b[i]! * b[i]!;
+    }
+
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+
+  private keywordOverlap(query: string, content: string): number {
+    const tokenize = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(word => word.length > 2));
+    const queryWords = tokenize(query);
+    const contentWords = tokenize(content);
+    if (queryWords.size === 0 || contentWords.size === 0) {
+      return 0;
+    }
+
+    let shared = 0;
+    queryWords.forEach(word => {
+      if (contentWords.has(word)) shared++;
+    });
+    return shared / Math.min(queryWords.size, contentWords.size);
+  }
+
+  private parseFact(row: any): UserFact {
+    // pgvector columns come back as '[0.1,0.2,...]' strings
+    const { embedding: rawEmbedding, ...fact } = row;
+    const embedding = typeof rawEmbedding === 'string' ? JSON.parse(rawEmbedding) : rawEmbedding;
+    return {
+      ...fact,
+      ...(Array.isArray(embedding) && { embedding }),
+      metadata: row.metadata || {}
+    };
+  }
+}
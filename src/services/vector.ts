@@ -44,7 +44,7 @@ export interface SearchResult {
   content: string;
   similarity: number;
   metadata: Record<string, any>;
-  source: 'document' | 'knowledge_base';
+  source: 'document' | 'knowledge_base' | 'mcp_resource';
   document_id?: string;
   chunk_id?: string;
   kb_id?: string;
@@ -14,6 +14,11 @@ export class VisionService {
     return this.SUPPORTED_IMAGE_TYPES.includes(mimetype.toLowerCase());
   }
 
+  /** Images and stickers (WebP images) that can be sent to a vision model */
+  static isVisualMedia(media?: MediaAttachment): boolean {
+    return !!media && (media.type === 'image' || media.type === 'sticker') && this.isImageSupported(media.mimetype || '');
+  }
+
   static createImageContent(media: MediaAttachment): LLMImageContent {
     if (!this.isImageSupported(media.mimetype || '')) {
       throw new Error(`Unsupported image type: ${media.mimetype}`);
@@ -46,7 +51,7 @@ export class VisionService {
       content.push(this.createTextContent(text));
     }
     
-    if (media && media.type === 'image' && this.isImageSupported(media.mimetype || '')) {
+    if (media && this.isVisualMedia(media)) {
       content.push(this.createImageContent(media));
     }
     
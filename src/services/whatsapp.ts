@@ -1,16 +1,137 @@
-import { Client, LocalAuth, Message } from 'whatsapp-web.js';
+import { Client, LocalAuth, Message, MessageMedia, Chat } from 'whatsapp-web.js';
 import { EventEmitter } from 'events';
-import { BotMessage, BotResponse, WhatsAppClientConfig, MessageMiddleware, MediaAttachment } from '../types';
+import { BotMessage, BotResponse, WhatsAppClientConfig, MessageMiddleware, MediaAttachment, MediaRejection, ResponseAttachment } from '../types';
+import { parseVCard } from '../utils/vcard';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as qrcode from 'qrcode-terminal';
 
+/** The raw WhatsApp payload fields read before a media message is downloaded */
+interface RawMediaData {
+  _data?: { size?: number };
+}
+
+export interface StreamingReplyOptions {
+  /** Minimum delay between message edits */
+  throttleMs?: number;
+  /** Appended to partial text while the reply is still being generated */
+  cursor?: string;
+  /** Shown above the streamed text, e.g. the transcript of a voice note */
+  prefix?: string;
+}
+
+/**
+ * A reply that is sent once the first tokens arrive and then edited in place
+ * as more text streams in. Edits are throttled and applied one at a time.
+ */
+export class StreamingReply {
+  private original: Message;
+  private throttleMs: number;
+  private cursor: string;
+  private prefix: string;
+  private sent: Message | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private latestText = '';
+  private renderedText = '';
+  private lastEditAt = 0;
+  private editTimer: NodeJS.Timeout | null = null;
+  private finished = false;
+
+  constructor(original: Message, options: StreamingReplyOptions = {}) {
+    this.original = original;
+    this.throttleMs = options.throttleMs ?? 1000;
+    this.cursor = options.cursor ?? ' ▍';
+    this.prefix = options.prefix ?? '';
+  }
+
+  hasStarted(): boolean {
+    return this.sent !== null || this.latestText !== '';
+  }
+
+  /** Show the text generated so far */
+  update(text: string): void {
+    if (this.finished || !text.trim()) {
+      return;
+    }
+
+    this.latestText = text;
+
+    if (!this.sent && this.renderedText === '') {
+      // First chunk: send the reply immediately
+      this.renderedText = text;
+      this.enqueue(() => this.render(text + this.cursor));
+      return;
+    }
+
+    if (this.editTimer) {
+      return;
+    }
+
+    const wait = Math.max(0, this.lastEditAt + this.throttleMs - Date.now());
+    this.editTimer = setTimeout(() => {
+      this.editTimer = null;
+      if (this.finished || this.latestText === this.renderedText) return;
+      this.renderedText = this.latestText;
+      this.enqueue(() => this.render(this.latestText + this.cursor));
+    }, wait);
+  }
+
+  /** Replace the streamed text with the final content and stop editing */
+  async finish(text: string): Promise<void> {
+    this.finished = true;
+    if (this.editTimer) {
+      clearTimeout(this.editTimer);
+      this.editTimer = null;
+    }
+
+    this.enqueue(() => this.render(text));
+    await this.queue;
+  }
+
+  private enqueue(operation: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(operation)
+      .catch(error => console.error('Error updating streamed reply:', error));
+  }
+
+  private async render(body: string): Promise<void> {
+    const text = this.prefix + body;
+    this.lastEditAt = Date.now();
+
+    if (!this.sent) {
+      this.sent = await this.original.reply(text);
+      return;
+    }
+
+    const edited = await this.sent.edit(text);
+    if (edited) {
+      this.sent = edited;
+    }
+  }
+}
+
 export class WhatsAppService extends EventEmitter {
+  /** Message types converted into a BotMessage */
+  private static readonly SUPPORTED_TYPES: string[] = [
+    'chat', 'image', 'document', 'ptt', 'audio', 'video', 'sticker', 'location', 'vcard', 'multi_vcard'
+  ];
+  /**
+   * Content the bot cannot use; these are passed on with `rejectedMedia` so
+   * the sender gets an explanation. Anything else (reactions, revoked
+   * messages, notifications, ...) is ignored silently.
+   */
+  private static readonly REJECTED_TYPES: string[] = [
+    'poll_creation', 'order', 'product', 'payment', 'groups_v4_invite'
+  ];
+  private static readonly DEFAULT_MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
   private client: Client;
   private config: WhatsAppClientConfig;
   private middlewares: MessageMiddleware[] = [];
   private isReady = false;
+  private inFlightMessages: Map<string, Message> = new Map();
+  private mediaFilter: (message: BotMessage) => boolean = () => true;
 
   private getBrowserExecutablePath(): string | undefined {
     const platform = os.platform();
@@ -192,15 +313,31 @@ export class WhatsAppService extends EventEmitter {
 
   private async handleIncomingMessage(message: Message): Promise<void> {
     try {
-      if (message.fromMe || message.type !== 'chat') {
+      if (message.fromMe) {
+        return;
+      }
+
+      if (!WhatsAppService.SUPPORTED_TYPES.includes(message.type) && !WhatsAppService.REJECTED_TYPES.includes(message.type)) {
         return;
       }
 
       const botMessage = await this.convertToBotMessage(message);
-      const response = await this.processMessageWithMiddlewares(botMessage);
+      this.inFlightMessages.set(botMessage.id, message);
+
+      try {
+        const response = await this.processMessageWithMiddlewares(botMessage);
+
+        // Replies made only of attachments (e.g. a voice note) have no text
+        if (response && !response.delivered && response.content) {
+          await this.sendResponse(message, response);
+        }
 
-      if (response) {
-        await this.sendResponse(message, response);
+        // Streamed replies deliver only their text, so files always go out here
+        if (response?.attachments?.length) {
+          await this.sendAttachments(message, response.attachments);
+        }
+      } finally {
+        this.inFlightMessages.delete(botMessage.id);
       }
     } catch (error) {
       console.error('Error handling message:', error);
@@ -208,65 +345,155 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  /**
+   * Create a reply to a message that is still being processed which can be
+   * progressively edited while the response streams in.
+   */
+  createStreamingReply(messageId: string, options: StreamingReplyOptions = {}): StreamingReply | null {
+    const original = this.inFlightMessages.get(messageId);
+    return original ? new StreamingReply(original, options) : null;
+  }
+
   private async convertToBotMessage(message: Message): Promise<BotMessage> {
     const contact = await message.getContact();
     const chat = await message.getChat();
-    
-    let media = undefined;
-    let hasMedia = false;
 
-    // Handle media messages
-    if (message.hasMedia) {
-      try {
-        const messageMedia = await message.downloadMedia();
-        if (messageMedia) {
-          hasMedia = true;
-          const mediaObj: any = {
-            type: this.getMediaType(message.type),
-            data: Buffer.from(messageMedia.data, 'base64'),
-            mimetype: messageMedia.mimetype
-          };
-
-          if (messageMedia.filename) {
-            mediaObj.filename = messageMedia.filename;
-          }
-
-          if (message.body) {
-            mediaObj.caption = message.body;
-          }
-
-          media = mediaObj;
-        }
-      } catch (error) {
-        console.error('Error downloading media:', error);
-      }
-    }
-    
     const botMessage: BotMessage = {
       id: message.id.id,
-      content: message.body,
+      // Location and contact bodies hold a thumbnail and the raw vCard, not text
+      content: ['location', 'vcard', 'multi_vcard'].includes(message.type) ? '' : message.body,
       from: message.from,
       timestamp: message.timestamp * 1000,
       isGroup: chat.isGroup,
       senderName: contact.pushname || contact.name || message.from,
-      hasMedia
+      hasMedia: false
     };
 
     if (chat.isGroup && chat.name) {
       botMessage.groupName = chat.name;
     }
 
+    if (message.author) {
+      botMessage.author = message.author;
+    }
+
+    if (chat.isGroup) {
+      await this.detectGroupTriggers(message, botMessage);
+    }
+
+    // Group media the bot would not answer is never downloaded
+    const { media, rejection } = !chat.isGroup || this.mediaFilter(botMessage)
+      ? await this.downloadAttachment(message)
+      : {};
+
     if (media) {
+      botMessage.hasMedia = true;
       botMessage.media = media;
     }
 
+    if (rejection) {
+      botMessage.rejectedMedia = rejection;
+    }
+
+    if (message.type === 'location' && message.location) {
+      const { latitude, longitude, name, address, url } = message.location;
+      botMessage.location = {
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        ...(name && { name }),
+        ...(address && { address }),
+        ...(url && { url })
+      };
+    }
+
+    if (message.type === 'vcard' || message.type === 'multi_vcard') {
+      const vcards = message.vCards?.length ? message.vCards : [message.body];
+      botMessage.contacts = vcards.filter(Boolean).map(vcard => parseVCard(vcard));
+    }
+
     return botMessage;
   }
 
-  private getMediaType(messageType: string): 'image' | 'document' | 'audio' | 'video' {
+  /**
+   * Download the attachment of a media message, refusing files above the
+   * configured size limit.
+   */
+  private async downloadAttachment(message: Message): Promise<{ media?: MediaAttachment; rejection?: MediaRejection }> {
+    if (WhatsAppService.REJECTED_TYPES.includes(message.type)) {
+      return { rejection: { type: message.type, reason: 'unsupported' } };
+    }
+
+    if (!message.hasMedia) {
+      return {};
+    }
+
+    const maxBytes = this.config.maxMediaBytes ?? WhatsAppService.DEFAULT_MAX_MEDIA_BYTES;
+    // The announced size lets large files be refused without downloading them
+    const announcedSize = Number((message as Message & RawMediaData)._data?.size) || 0;
+    if (announcedSize > maxBytes) {
+      return { rejection: { type: message.type, reason: 'too_large', sizeBytes: announcedSize, maxBytes } };
+    }
+
+    try {
+      const messageMedia = await message.downloadMedia();
+      if (!messageMedia) {
+        return { rejection: { type: message.type, reason: 'download_failed' } };
+      }
+
+      const data = Buffer.from(messageMedia.data, 'base64');
+      if (data.length > maxBytes) {
+        return { rejection: { type: message.type, reason: 'too_large', sizeBytes: data.length, maxBytes } };
+      }
+
+      return {
+        media: {
+          type: this.getMediaType(message.type),
+          data,
+          mimetype: messageMedia.mimetype,
+          ...(messageMedia.filename && { filename: messageMedia.filename }),
+          ...(message.body && message.type !== 'sticker' && { caption: message.body })
+        }
+      };
+    } catch (error) {
+      console.error('Error downloading media:', error);
+      return { rejection: { type: message.type, reason: 'download_failed' } };
+    }
+  }
+
+  /**
+   * Flag group messages addressed to the bot so group policies can decide
+   * whether to answer them.
+   */
+  private async detectGroupTriggers(message: Message, botMessage: BotMessage): Promise<void> {
+    const botId = this.client.info?.wid?._serialized;
+    if (!botId) {
+      return;
+    }
+
+    if (message.mentionedIds.includes(botId)) {
+      const botNumber = botId.split('@')[0];
+      botMessage.mentionsBot = true;
+      botMessage.content = botMessage.content.replace(new RegExp(`@${botNumber}\\b`, 'g'), '').replace(/\s{2,}/g, ' ').trim();
+    }
+
+    if (message.hasQuotedMsg) {
+      try {
+        const quoted = await message.getQuotedMessage();
+        if (quoted?.fromMe) {
+          botMessage.isReplyToBot = true;
+        }
+      } catch (error) {
+        console.warn('Could not load quoted message:', error);
+      }
+    }
+  }
+
+  private getMediaType(messageType: string): MediaAttachment['type'] {
     switch (messageType) {
       case 'image':
         return 'image';
+      case 'sticker':
+        return 'sticker';
       case 'document':
         return 'document';
       case 'audio':
@@ -317,6 +544,65 @@ export class WhatsAppService extends EventEmitter {
     }
   }
 
+  private async sendAttachments(originalMessage: Message, attachments: ResponseAttachment[]): Promise<void> {
+    for (const attachment of attachments) {
+      try {
+        const media = new MessageMedia(attachment.mimetype, attachment.data.toString('base64'), attachment.filename ?? null, attachment.data.length);
+        await originalMessage.reply(media, undefined, {
+          ...(attachment.caption && { caption: attachment.caption }),
+          ...(attachment.type === 'document' && { sendMediaAsDocument: true }),
+          ...(attachment.type === 'sticker' && { sendMediaAsSticker: true }),
+          ...(attachment.type === 'audio' && attachment.voice && { sendAudioAsVoice: true })
+        });
+      } catch (error) {
+        console.error(`Error sending ${attachment.type} attachment:`, error);
+        await originalMessage.reply(`⚠️ I couldn't send ${attachment.filename || `the ${attachment.type}`}.`).catch(() => undefined);
+      }
+    }
+  }
+
+  /** Send read receipts for all messages in a chat */
+  async markChatSeen(chatId: string): Promise<void> {
+    await this.updateChatPresence(chatId, chat => chat.sendSeen(), 'mark chat as seen');
+  }
+
+  /** Show "typing..." in a chat. WhatsApp expires the state after ~25 seconds. */
+  async sendTyping(chatId: string): Promise<void> {
+    await this.updateChatPresence(chatId, chat => chat.sendStateTyping(), 'send typing state');
+  }
+
+  /** Show "recording audio..." in a chat */
+  async sendRecording(chatId: string): Promise<void> {
+    await this.updateChatPresence(chatId, chat => chat.sendStateRecording(), 'send recording state');
+  }
+
+  /** Stop showing "typing..." or "recording..." in a chat */
+  async clearChatState(chatId: string): Promise<void> {
+    await this.updateChatPresence(chatId, chat => chat.clearState(), 'clear chat state');
+  }
+
+  private async updateChatPresence(chatId: string, update: (chat: Chat) => Promise<unknown>, action: string): Promise<void> {
+    if (!this.isReady) {
+      return;
+    }
+
+    // Presence is cosmetic: failures are logged but never interrupt message handling
+    try {
+      const chat = await this.client.getChatById(chatId);
+      await update(chat);
+    } catch (error) {
+      console.warn(`⚠️  Failed to ${action} for ${chatId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Decide which group messages get their attachment downloaded. The filter
+   * sees the message with its group triggers set but without media.
+   */
+  setMediaFilter(filter: (message: BotMessage) => boolean): void {
+    this.mediaFilter = filter;
+  }
+
   addMiddleware(middleware: MessageMiddleware): void {
     this.middlewares.push(middleware);
   }
@@ -0,0 +1,122 @@
+/**
+ * User Memory Tools
+ * Let the model store, list and remove long-term facts about the user.
+ * Registered programmatically when UserMemoryService is available.
+ */
+
+import { Tool, ToolContext, ToolResult } from '../../types/tools';
+import { UserMemoryService } from '../../services/user-memory';
+
+interface MemoryAccess {
+  memory: UserMemoryService;
+  userId: string;
+}
+
+/** The memory service and the user whose facts are read or written, or why there are none */
+function getMemoryAccess(context: ToolContext): MemoryAccess | ToolResult {
+  if (!context.services.memory) {
+    return { success: false, error: 'Long-term memory is not configured' };
+  }
+  if (!context.user) {
+    return { success: false, error: 'Could not identify the user for this conversation' };
+  }
+  return { memory: context.services.memory, userId: context.user.id };
+}
+
+export const rememberFactTool: Tool = {
+  name: 'remember_fact',
+  description: 'Save a lasting fact about the user (timezone, language, preferences, names, recurring plans) so it is remembered in future conversations. Use when the user shares something worth remembering or asks you to remember it.',
+  parameters: {
+    type: 'object',
+    properties: {
+      fact: {
+        type: 'string',
+        description: 'The fact as a short self-contained sentence, e.g. "User\'s timezone is Europe/Berlin"'
+      },
+      category: {
+        type: 'string',
+        description: 'Optional category',
+        enum: ['preference', 'personal', 'location', 'language', 'work', 'other']
+      }
+    },
+    required: ['fact']
+  },
+  enabled: true,
+  category: 'memory',
+  version: '1.0.0',
+
+  async execute({ fact, category }, context) {
+    const access = getMemoryAccess(context);
+    if (!('memory' in access)) return access;
+
+    const { fact: saved, updated } = await access.memory.rememberFact(access.userId, String(fact), category);
+    return {
+      success: true,
+      data: { id: saved.id, fact: saved.content, category: saved.category, updated },
+      message: updated ? `Updated remembered fact: ${saved.content}` : `Remembered: ${saved.content}`
+    };
+  }
+};
+
+export const forgetFactTool: Tool = {
+  name: 'forget_fact',
+  description: 'Remove a previously remembered fact about the user, identified by its id (from list_facts) or a description of it. Use when the user asks you to forget something or a fact is no longer true.',
+  parameters: {
+    type: 'object',
+    properties: {
+      fact: {
+        type: 'string',
+        description: 'Fact id or a description of the fact to forget'
+      }
+    },
+    required: ['fact']
+  },
+  enabled: true,
+  category: 'memory',
+  version: '1.0.0',
+
+  async execute({ fact }, context) {
+    const access = getMemoryAccess(context);
+    if (!('memory' in access)) return access;
+
+    const removed = await access.memory.forgetFact(access.userId, String(fact));
+    if (!removed) {
+      return { success: false, error: `No remembered fact matches "${fact}"` };
+    }
+
+    return {
+      success: true,
+      data: { id: removed.id, fact: removed.content },
+      message: `Forgot: ${removed.content}`
+    };
+  }
+};
+
+export const listFactsTool: Tool = {
+  name: 'list_facts',
+  description: 'List everything remembered about the user. Use when the user asks what you know or remember about them.',
+  parameters: {
+    type: 'object',
+    properties: {}
+  },
+  enabled: true,
+  category: 'memory',
+  version: '1.0.0',
+
+  async execute(_params, context) {
+    const access = getMemoryAccess(context);
+    if (!('memory' in access)) return access;
+
+    const facts = await access.memory.listFacts(access.userId);
+    return {
+      success: true,
+      data: {
+        count: facts.length,
+        facts: facts.map(fact => ({ id: fact.id, fact: fact.content, category: fact.category, savedAt: fact.created_at }))
+      },
+      message: facts.length > 0 ? `${facts.length} facts remembered` : 'Nothing remembered yet'
+    };
+  }
+};
+
+export const memoryTools: Tool[] = [rememberFactTool, forgetFactTool, listFactsTool];
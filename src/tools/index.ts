@@ -3,6 +3,8 @@ import * as path from 'path';
 import { EventEmitter } from 'events';
 import { Tool, LoadedTool, ToolContext, ToolResult, ToolCall, ToolCallResult, ToolFunction, ToolStats } from '../types/tools';
 
+const BUILTIN_TOOL_PREFIX = 'builtin:';
+
 export class ToolManager extends EventEmitter {
   private tools: Map<string, LoadedTool> = new Map();
   private toolsDirectory: string;
@@ -205,6 +207,32 @@ export class ToolManager extends EventEmitter {
     return true;
   }
 
+  /**
+   * Register a tool that is defined in code rather than loaded from the tools
+   * directory (e.g. tools that depend on optional services).
+   */
+  async registerTool(tool: Tool): Promise<void> {
+    this.validateTool(tool, tool.name);
+
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool '${tool.name}' is already registered`);
+    }
+
+    if (tool.initialize) {
+      await tool.initialize();
+    }
+
+    this.tools.set(tool.name, {
+      tool,
+      filePath: `${BUILTIN_TOOL_PREFIX}${tool.name}`,
+      loadTime: new Date(),
+      usageCount: 0,
+      errorCount: 0
+    });
+    console.log(`✅ Registered built-in tool: ${tool.name} (${tool.description})`);
+    this.emit('toolLoaded', { name: tool.name, tool });
+  }
+
   getAvailableTools(): ToolFunction[] {
     return Array.from(this.tools.values())
       .filter(loadedTool => loadedTool.tool.enabled)
@@ -248,6 +276,11 @@ export class ToolManager extends EventEmitter {
       return false;
     }
 
+    if (loadedTool.filePath.startsWith(BUILTIN_TOOL_PREFIX)) {
+      console.log(`ℹ️ Tool ${toolName} is built in and cannot be reloaded from disk`);
+      return false;
+    }
+
     try {
       // Cleanup old tool
       if (loadedTool.tool.cleanup) {
@@ -0,0 +1,152 @@
+/**
+ * PDF Report Tool
+ * Builds a simple PDF document from a title and sections and sends it to the user
+ */
+
+const { PDFDocument, StandardFonts, rgb } = require('pdf-lib');
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+module.exports = {
+  name: 'pdf_report',
+  description: 'Create a PDF report from a title and sections of text and send it to the user as a document. Use when the user asks for a report, summary or export as a PDF file.',
+  parameters: {
+    type: 'object',
+    properties: {
+      title: {
+        type: 'string',
+        description: 'Report title'
+      },
+      sections: {
+        type: 'array',
+        description: 'Report sections in order',
+        items: {
+          type: 'object',
+          properties: {
+            heading: { type: 'string', description: 'Section heading' },
+            body: { type: 'string', description: 'Section text; blank lines separate paragraphs' }
+          },
+          required: ['body']
+        }
+      },
+      filename: {
+        type: 'string',
+        description: 'File name without extension (defaults to the title)'
+      }
+    },
+    required: ['title', 'sections']
+  },
+  enabled: true,
+  category: 'documents',
+  version: '1.0.0',
+
+  async execute({ title, sections = [], filename }, context) {
+    try {
+      if (!Array.isArray(sections) || sections.length === 0) {
+        return {
+          success: false,
+          error: 'No sections provided',
+          message: 'A report needs at least one section.'
+        };
+      }
+
+      const pdf = await this.buildPdf(String(title), sections);
+      const name = `${this.slugify(filename || title) || 'report'}.pdf`;
+
+      return {
+        success: true,
+        data: { filename: name, pages: pdf.pages, bytes: pdf.data.length },
+        message: `Created ${name} (${pdf.pages} page${pdf.pages === 1 ? '' : 's'})`,
+        attachments: [{
+          type: 'document',
+          data: pdf.data,
+          mimetype: 'application/pdf',
+          filename: name
+        }]
+      };
+
+    } catch (error) {
+      console.error('PDF report tool error:', error);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Sorry, I could not create the PDF report.'
+      };
+    }
+  },
+
+  async buildPdf(title, sections) {
+    const doc = await PDFDocument.create();
+    doc.setTitle(title);
+    doc.setCreator('WhatsApp LLM Bot');
+
+    const regular = await doc.embedFont(StandardFonts.Helvetica);
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+    let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+
+    const write = (text, font, size, gapAfter) => {
+      for (const line of this.wrap(this.toWinAnsi(text), font, size, PAGE_WIDTH - 2 * MARGIN)) {
+        if (y - size < MARGIN) {
+          page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        page.drawText(line, { x: MARGIN, y: y - size, size, font, color: rgb(0.1, 0.1, 0.1) });
+        y -= size * 1.4;
+      }
+      y -= gapAfter;
+    };
+
+    write(title, bold, 20, 12);
+    for (const section of sections) {
+      if (section.heading) {
+        write(String(section.heading), bold, 14, 4);
+      }
+      for (const paragraph of String(section.body || '').split(/\n\s*\n/)) {
+        write(paragraph.replace(/\s*\n\s*/g, ' '), regular, 11, 8);
+      }
+      y -= 8;
+    }
+
+    const data = Buffer.from(await doc.save());
+    return { data, pages: doc.getPageCount() };
+  },
+
+  wrap(text, font, size, maxWidth) {
+    const lines = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+
+    if (line) lines.push(line);
+    return lines.length > 0 ? lines : [''];
+  },
+
+  // The standard PDF fonts only cover WinAnsi (Latin-1); replace anything else
+  toWinAnsi(text) {
+    return text
+      .replace(/[‘’]/g, "'")
+      .replace(/[“”]/g, '"')
+      .replace(/[–—]/g, '-')
+      .replace(/[^\x20-\x7E\xA0-\xFF\s]/g, '?');
+  },
+
+  slugify(text) {
+    return String(text)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 60);
+  }
+};
@@ -12,7 +12,23 @@ export interface LLMTextContent {
   text: string;
 }
 
-export type LLMContent = string | (LLMTextContent | LLMImageContent)[];
+export interface LLMToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: any;
+}
+
+export interface LLMToolResultContent {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type LLMContentBlock = LLMTextContent | LLMImageContent | LLMToolUseContent | LLMToolResultContent;
+
+export type LLMContent = string | LLMContentBlock[];
 
 export interface LLMMessage {
   role: 'user' | 'assistant' | 'system';
@@ -21,6 +37,8 @@ export interface LLMMessage {
 
 export interface LLMResponse {
   content: string;
+  /** Model that actually served the request, as reported by the API */
+  model?: string;
   usage?: {
     inputTokens: number;
     outputTokens: number;
@@ -31,11 +49,18 @@ export interface LLMResponse {
     name: string;
     parameters: any;
   }>;
+  stopReason?: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | 'other';
+  /** Provider that answered, when a fallback chain may have used more than one */
+  provider?: string;
 }
 
+/** Receives each text delta along with the text accumulated so far */
+export type LLMStreamCallback = (delta: string, text: string) => void;
+
 export interface LLMProvider {
   name: string;
   generateResponse(messages: LLMMessage[], options?: LLMGenerationOptions): Promise<LLMResponse>;
+  streamResponse(messages: LLMMessage[], options: LLMGenerationOptions | undefined, onText: LLMStreamCallback): Promise<LLMResponse>;
 }
 
 export interface LLMGenerationOptions {
@@ -51,11 +76,16 @@ export interface LLMGenerationOptions {
   toolChoice?: 'auto' | 'none' | string;
 }
 
+export type LLMProviderType = 'anthropic' | 'openrouter' | 'openai' | 'local';
+
 export interface LLMConfig {
-  provider: 'anthropic' | 'openrouter';
+  provider: LLMProviderType;
   apiKey: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
   baseURL?: string;
-}
\ No newline at end of file
+}
+
+/** What a provider is constructed with: its credentials and request defaults */
+export type LLMProviderConfig = Omit<LLMConfig, 'provider'>;
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { BotMessage } from './whatsapp';
-import { DatabaseService, RAGService } from '../services';
+import { BotMessage, ResponseAttachment } from './whatsapp';
+import { DatabaseService, RAGService, UserMemoryService } from '../services';
 import { User, Conversation } from '../services/database';
 import NodeCache from 'node-cache';
 
@@ -17,6 +17,7 @@ export interface ToolContext {
   services: {
     database?: DatabaseService;
     rag?: RAGService;
+    memory?: UserMemoryService;
     cache: NodeCache;
   };
 }
@@ -27,6 +28,8 @@ export interface ToolResult {
   error?: string;
   message?: string;
   shouldContinue?: boolean;
+  /** Files to send to the user with the reply; the model only sees a summary */
+  attachments?: ResponseAttachment[];
 }
 
 export interface Tool {
@@ -1,29 +1,92 @@
 import { Message } from 'whatsapp-web.js';
+import { LLMResponse } from './llm';
 
 export interface MediaAttachment {
-  type: 'image' | 'document' | 'audio' | 'video';
+  type: 'image' | 'document' | 'audio' | 'video' | 'sticker';
   data: Buffer;
   filename?: string;
   mimetype?: string;
   caption?: string;
 }
 
+export interface SharedLocation {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+export interface SharedContact {
+  name: string;
+  phoneNumbers: string[];
+  /** The raw vCard */
+  vcard: string;
+}
+
+/** A file sent back with a reply */
+export interface ResponseAttachment {
+  type: 'image' | 'document' | 'audio' | 'sticker';
+  data: Buffer;
+  mimetype: string;
+  filename?: string;
+  caption?: string;
+  /** Send audio as a voice note rather than an audio file */
+  voice?: boolean;
+}
+
+/** Media the bot received but could not accept */
+export interface MediaRejection {
+  /** WhatsApp message type, e.g. 'video' or 'poll_creation' */
+  type: string;
+  reason: 'too_large' | 'unsupported' | 'download_failed';
+  sizeBytes?: number;
+  maxBytes?: number;
+}
+
 export interface BotMessage {
   id: string;
   content: string;
   from: string;
   timestamp: number;
   isGroup: boolean;
+  /** Sender of a group message; `from` is the group itself */
+  author?: string;
   groupName?: string;
+  /** Group message that @-mentions the bot (the mention is stripped from content) */
+  mentionsBot?: boolean;
+  /** Group message that replies to one of the bot's messages */
+  isReplyToBot?: boolean;
   senderName?: string;
   hasMedia?: boolean;
   media?: MediaAttachment;
+  location?: SharedLocation;
+  contacts?: SharedContact[];
+  rejectedMedia?: MediaRejection;
+  /** Content is the transcript of a voice note or audio message */
+  transcribed?: boolean;
 }
 
 export interface BotResponse {
   content: string;
   mentions?: string[];
   quotedMessage?: string;
+  /** Already sent to the chat (e.g. streamed), so it must not be sent again */
+  delivered?: boolean;
+  /** Files sent after the text, e.g. charts or reports produced by tools */
+  attachments?: ResponseAttachment[];
+  /** How the reply was generated; absent for canned replies */
+  metrics?: ResponseMetrics;
+}
+
+/** Usage of an LLM-generated reply, recorded for quotas and cost accounting */
+export interface ResponseMetrics {
+  provider: string;
+  model?: string;
+  usage?: LLMResponse['usage'];
+  responseTimeMs: number;
+  /** Tool-calling rounds before the final answer */
+  toolRounds: number;
 }
 
 export interface WhatsAppClientConfig {
@@ -31,6 +94,8 @@ export interface WhatsAppClientConfig {
   session?: string;
   restartOnAuthFail?: boolean;
   qrMaxRetries?: number;
+  /** Media larger than this is not downloaded */
+  maxMediaBytes?: number;
 }
 
 export interface MessageHandler {
@@ -1,64 +1,116 @@
 import { config } from 'dotenv';
-import { LLMConfig } from '../types';
+import { LLMConfig, LLMProviderType } from '../types';
+import { LocalToolMode } from '../providers/local';
+import { OpenAIApiMode } from '../providers/openai';
+import { MCPServer } from '../services/mcp';
+import { HistoryStoreType } from '../services/history-store';
+import { QuotaLimits } from '../services/quota';
+import { TranscriptionConfig } from '../services/transcription';
+import { TTSConfig, VoiceReplyMode } from '../services/tts';
+import { getContextWindow } from '../services/context-manager';
+import { GroupPolicy, GroupReplyMode, GroupHistoryScope } from '../bot/group-policy';
 
 config();
 
+export interface FallbackEntry {
+  provider: LLMProviderType;
+  model?: string;
+}
+
+/** Per-provider request defaults, passed into the provider when it is created */
+export interface ProviderModelConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /** API endpoint override, e.g. a proxy or gateway */
+  baseURL?: string;
+}
+
 export interface AppConfig {
   llm: LLMConfig;
+  /** Retries, circuit breaking and the providers tried after the selected one */
+  fallback: {
+    providers: FallbackEntry[];
+    retryAttempts: number;
+    retryDelayMs: number;
+    failureThreshold: number;
+    cooldownMs: number;
+  };
   whatsapp: {
     session: string;
     qrMaxRetries: number;
     restartOnAuthFail: boolean;
+    maxMediaBytes: number;
   };
   bot: {
     systemPrompt: string;
     maxTokens: number;
     temperature: number;
+    maxToolSteps: number;
+    maxContextTokens: number;
+    /** Cheaper model of the selected provider for summarizing old turns */
+    summaryModel?: string;
+    enableStreaming: boolean;
+    streamThrottleMs: number;
     enableLogging: boolean;
-    rateLimit: {
-      maxRequests: number;
-      windowMs: number;
+    /** WhatsApp ids (or bare phone numbers) allowed to run admin commands */
+    admins: string[];
+    quota: {
+      enabled: boolean;
+      user: QuotaLimits;
+      admin: QuotaLimits;
+      group: QuotaLimits;
     };
   };
-  models: {
-    anthropic: {
-      model: string;
-      maxTokens: number;
-      temperature: number;
-    };
-    openrouter: {
-      model: string;
-      maxTokens: number;
-      temperature: number;
-    };
+  models: Record<LLMProviderType, ProviderModelConfig>;
+  /** Self-hosted OpenAI-compatible server used by the local provider */
+  local: {
+    baseURL: string;
+    apiKey?: string;
+    toolMode: LocalToolMode;
+    timeoutMs: number;
   };
   supabase?: {
     url: string;
     anonKey: string;
     projectId: string;
   };
+  history: {
+    store: HistoryStoreType | 'auto';
+    directory: string;
+  };
+  groups: {
+    replyMode: GroupReplyMode;
+    keywords: string[];
+    historyScope: GroupHistoryScope;
+    policies: Record<string, Partial<GroupPolicy>>;
+  };
   server: {
     port: number;
     enableHealthCheck: boolean;
   };
   openai?: {
     apiKey: string;
+    /** API used by the openai provider */
+    apiMode: OpenAIApiMode;
   };
   features: {
     enableRAG: boolean;
     enableVision: boolean;
     enablePDF: boolean;
     enableMCP: boolean;
+    enableUserMemory: boolean;
   };
+  /** Voice note transcription; absent when no backend is configured */
+  transcription?: TranscriptionConfig;
+  /** Voice note replies; absent unless TTS_BACKEND is set */
+  tts?: TTSConfig;
   mcp?: {
-    servers: Array<{
-      name: string;
-      command: string;
-      args: string[];
-      enabled: boolean;
-    }>;
+    servers: MCPServer[];
     timeout: number;
     retryAttempts: number;
+    retryDelayMs: number;
+    namespaceTools: boolean;
   };
 }
 
@@ -87,7 +139,7 @@ class ConfigManager {
     // At least one API key should be available for the selected provider
 
     const llmConfig: any = {
-      provider: (process.env.LLM_PROVIDER as 'anthropic' | 'openrouter') || 'anthropic',
+      provider: (process.env.LLM_PROVIDER as LLMProviderType) || 'anthropic',
       apiKey: process.env.ANTHROPIC_API_KEY || process.env.OPENROUTER_API_KEY || '',
       model: process.env.LLM_MODEL || 'claude-sonnet-4-20250514',
       maxTokens: parseInt(process.env.LLM_MAX_TOKENS || '1000'),
@@ -100,10 +152,18 @@ class ConfigManager {
 
     return {
       llm: llmConfig,
+      fallback: {
+        providers: this.parseFallbacks(process.env.LLM_FALLBACKS),
+        retryAttempts: parseInt(process.env.LLM_RETRY_ATTEMPTS || '2'),
+        retryDelayMs: parseInt(process.env.LLM_RETRY_DELAY_MS || '1000'),
+        failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3'),
+        cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000')
+      },
       whatsapp: {
         session: process.env.WHATSAPP_SESSION || 'default',
         qrMaxRetries: parseInt(process.env.WHATSAPP_QR_MAX_RETRIES || '3'),
-        restartOnAuthFail: process.env.WHATSAPP_RESTART_ON_AUTH_FAIL === 'true'
+        restartOnAuthFail: process.env.WHATSAPP_RESTART_ON_AUTH_FAIL === 'true',
+        maxMediaBytes: parseInt(process.env.WHATSAPP_MAX_MEDIA_BYTES || String(25 * 1024 * 1024))
       },
       bot: {
         systemPrompt: process.env.BOT_SYSTEM_PROMPT || 
@@ -129,24 +189,63 @@ class ConfigManager {
 Note: Tool information will be dynamically added based on available tools.`,
         maxTokens: parseInt(process.env.BOT_MAX_TOKENS || '1000'),
         temperature: parseFloat(process.env.BOT_TEMPERATURE || '0.7'),
+        maxToolSteps: parseInt(process.env.BOT_MAX_TOOL_STEPS || '5'),
+        maxContextTokens: parseInt(process.env.BOT_MAX_CONTEXT_TOKENS || '24000'),
+        ...(process.env.BOT_SUMMARY_MODEL && { summaryModel: process.env.BOT_SUMMARY_MODEL }),
+        enableStreaming: process.env.BOT_ENABLE_STREAMING !== 'false',
+        streamThrottleMs: parseInt(process.env.BOT_STREAM_THROTTLE_MS || '1000'),
         enableLogging: process.env.BOT_ENABLE_LOGGING !== 'false',
-        rateLimit: {
-          maxRequests: parseInt(process.env.BOT_RATE_LIMIT_MAX_REQUESTS || '10'),
-          windowMs: parseInt(process.env.BOT_RATE_LIMIT_WINDOW_MS || '60000')
+        admins: (process.env.BOT_ADMINS || '').split(',').map(admin => admin.trim()).filter(Boolean),
+        quota: {
+          enabled: process.env.BOT_QUOTA_ENABLED !== 'false',
+          user: {
+            maxRequests: parseInt(process.env.BOT_RATE_LIMIT_MAX_REQUESTS || '10'),
+            windowMs: parseInt(process.env.BOT_RATE_LIMIT_WINDOW_MS || '60000'),
+            dailyTokens: parseInt(process.env.BOT_DAILY_TOKEN_LIMIT || '200000')
+          },
+          admin: {
+            maxRequests: parseInt(process.env.BOT_ADMIN_RATE_LIMIT_MAX_REQUESTS || '0'),
+            windowMs: parseInt(process.env.BOT_RATE_LIMIT_WINDOW_MS || '60000'),
+            dailyTokens: parseInt(process.env.BOT_ADMIN_DAILY_TOKEN_LIMIT || '0')
+          },
+          group: {
+            maxRequests: parseInt(process.env.GROUP_RATE_LIMIT_MAX_REQUESTS || '30'),
+            windowMs: parseInt(process.env.BOT_RATE_LIMIT_WINDOW_MS || '60000'),
+            dailyTokens: parseInt(process.env.GROUP_DAILY_TOKEN_LIMIT || '500000')
+          }
         }
       },
       models: {
         anthropic: {
           model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
           maxTokens: parseInt(process.env.ANTHROPIC_MAX_TOKENS || '1000'),
-          temperature: parseFloat(process.env.ANTHROPIC_TEMPERATURE || '0.7')
+          temperature: parseFloat(process.env.ANTHROPIC_TEMPERATURE || '0.7'),
+          ...(process.env.ANTHROPIC_BASE_URL && { baseURL: process.env.ANTHROPIC_BASE_URL })
         },
         openrouter: {
           model: process.env.OPENROUTER_MODEL || 'anthropic/claude-3.5-sonnet',
           maxTokens: parseInt(process.env.OPENROUTER_MAX_TOKENS || '1000'),
-          temperature: parseFloat(process.env.OPENROUTER_TEMPERATURE || '0.7')
+          temperature: parseFloat(process.env.OPENROUTER_TEMPERATURE || '0.7'),
+          ...(process.env.OPENROUTER_BASE_URL && { baseURL: process.env.OPENROUTER_BASE_URL })
+        },
+        openai: {
+          model: process.env.OPENAI_MODEL || 'gpt-4.1-mini',
+          maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '1000'),
+          temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.7'),
+          ...(process.env.OPENAI_BASE_URL && { baseURL: process.env.OPENAI_BASE_URL })
+        },
+        local: {
+          model: process.env.LOCAL_MODEL || 'llama3.1',
+          maxTokens: parseInt(process.env.LOCAL_MAX_TOKENS || '1000'),
+          temperature: parseFloat(process.env.LOCAL_TEMPERATURE || '0.7')
         }
       },
+      local: {
+        baseURL: process.env.LOCAL_BASE_URL || process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        ...(process.env.LOCAL_API_KEY && { apiKey: process.env.LOCAL_API_KEY }),
+        toolMode: (process.env.LOCAL_TOOL_MODE as LocalToolMode) || 'auto',
+        timeoutMs: parseInt(process.env.LOCAL_TIMEOUT_MS || '120000')
+      },
       ...(process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY ? {
         supabase: {
           url: process.env.SUPABASE_URL,
@@ -154,21 +253,35 @@ Note: Tool information will be dynamically added based on available tools.`,
           projectId: process.env.SUPABASE_PROJECT_ID || ''
         }
       } : {}),
+      history: {
+        store: (process.env.HISTORY_STORE as HistoryStoreType | 'auto') || 'auto',
+        directory: process.env.HISTORY_DIR || './data/history'
+      },
+      groups: {
+        replyMode: (process.env.GROUP_REPLY_MODE as GroupReplyMode) || 'mention',
+        keywords: (process.env.GROUP_KEYWORDS || '').split(',').map(keyword => keyword.trim()).filter(Boolean),
+        historyScope: (process.env.GROUP_HISTORY_SCOPE as GroupHistoryScope) || 'group',
+        policies: this.parseGroupPolicies(process.env.GROUP_POLICIES)
+      },
       server: {
         port: parseInt(process.env.PORT || '3000'),
         enableHealthCheck: process.env.ENABLE_HEALTH_CHECK !== 'false'
       },
       ...(process.env.OPENAI_API_KEY ? {
         openai: {
-          apiKey: process.env.OPENAI_API_KEY
+          apiKey: process.env.OPENAI_API_KEY,
+          apiMode: (process.env.OPENAI_API_MODE as OpenAIApiMode) || 'auto'
         }
       } : {}),
       features: {
         enableRAG: process.env.ENABLE_RAG !== 'false',
         enableVision: process.env.ENABLE_VISION !== 'false',
         enablePDF: process.env.ENABLE_PDF !== 'false',
-        enableMCP: process.env.ENABLE_MCP !== 'false'
+        enableMCP: process.env.ENABLE_MCP !== 'false',
+        enableUserMemory: process.env.ENABLE_USER_MEMORY !== 'false'
       },
+      ...this.loadTranscriptionConfig(),
+      ...this.loadTTSConfig(),
       mcp: {
         servers: [
           {
@@ -188,21 +301,231 @@ Note: Tool information will be dynamically added based on available tools.`,
             command: 'npx',
             args: ['@modelcontextprotocol/server-web'],
             enabled: process.env.MCP_WEB_ENABLED === 'true'
-          }
+          },
+          ...this.parseMCPServers(process.env.MCP_SERVERS)
         ],
         timeout: parseInt(process.env.MCP_TIMEOUT || '30000'),
-        retryAttempts: parseInt(process.env.MCP_RETRY_ATTEMPTS || '3')
+        retryAttempts: parseInt(process.env.MCP_RETRY_ATTEMPTS || '3'),
+        retryDelayMs: parseInt(process.env.MCP_RETRY_DELAY_MS || '2000'),
+        namespaceTools: process.env.MCP_NAMESPACE_TOOLS !== 'false'
       }
     };
   }
 
+  private parseMCPServers(value?: string): MCPServer[] {
+    if (!value) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(value);
+      if (!Array.isArray(parsed)) {
+        throw new Error('MCP_SERVERS must be a JSON array');
+      }
+
+      return parsed.map((server: any): MCPServer => {
+        const toolFilters = {
+          ...(Array.isArray(server.allowTools) ? { allowTools: server.allowTools } : {}),
+          ...(Array.isArray(server.denyTools) ? { denyTools: server.denyTools } : {})
+        };
+
+        if (server.transport === 'http' || server.transport === 'sse' || (!server.command && server.url)) {
+          return {
+            name: server.name,
+            transport: server.transport === 'sse' ? 'sse' : 'http',
+            url: server.url,
+            ...(server.headers ? { headers: server.headers } : {}),
+            ...toolFilters,
+            enabled: server.enabled !== false
+          };
+        }
+
+        return {
+          name: server.name,
+          command: server.command,
+          args: server.args || [],
+          ...(server.env ? { env: server.env } : {}),
+          ...toolFilters,
+          enabled: server.enabled !== false
+        };
+      });
+    } catch (error) {
+      console.warn(`⚠️  Ignoring invalid MCP_SERVERS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
+    }
+  }
+
+  private parseGroupPolicies(value?: string): Record<string, Partial<GroupPolicy>> {
+    if (!value) {
+      return {};
+    }
+
+    try {
+      const parsed = JSON.parse(value);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('GROUP_POLICIES must be a JSON object keyed by group id or name');
+      }
+
+      return Object.fromEntries(Object.entries<any>(parsed).map(([group, policy]) => [group, {
+        ...(policy.replyMode ? { replyMode: policy.replyMode } : {}),
+        ...(Array.isArray(policy.keywords) ? { keywords: policy.keywords } : {}),
+        ...(policy.historyScope ? { historyScope: policy.historyScope } : {}),
+        ...(policy.systemPrompt ? { systemPrompt: policy.systemPrompt } : {}),
+        ...(Array.isArray(policy.tools) ? { tools: policy.tools } : {})
+      }]));
+    } catch (error) {
+      console.warn(`⚠️  Ignoring invalid GROUP_POLICIES: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {};
+    }
+  }
+
+  /**
+   * Parse LLM_FALLBACKS, a comma-separated list of provider[:model] entries
+   * such as "openrouter:openai/gpt-4o-mini,anthropic:claude-3-5-haiku-latest".
+   */
+  private parseFallbacks(raw: string | undefined): FallbackEntry[] {
+    const entries: FallbackEntry[] = [];
+
+    for (const item of (raw || '').split(',').map(entry => entry.trim()).filter(Boolean)) {
+      const separator = item.indexOf(':');
+      const provider = (separator === -1 ? item : item.substring(0, separator)).trim().toLowerCase();
+      const model = separator === -1 ? '' : item.substring(separator + 1).trim();
+
+      if (provider !== 'anthropic' && provider !== 'openrouter' && provider !== 'openai' && provider !== 'local') {
+        console.warn(`⚠️  Ignoring invalid LLM_FALLBACKS entry: ${item} (provider must be anthropic, openrouter, openai or local)`);
+        continue;
+      }
+      entries.push({ provider, ...(model && { model }) });
+    }
+
+    return entries;
+  }
+
+  /**
+   * TRANSCRIPTION_BACKEND=auto prefers the HTTP API when an API key is
+   * available and falls back to a local whisper.cpp model when one is set.
+   */
+  private loadTranscriptionConfig(): { transcription?: TranscriptionConfig } {
+    const requested = (process.env.TRANSCRIPTION_BACKEND || 'auto').toLowerCase();
+    const apiKey = process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY;
+    const apiUrl = process.env.TRANSCRIPTION_API_URL || 'https://api.openai.com/v1/audio/transcriptions';
+    const localModel = process.env.WHISPER_CPP_MODEL;
+
+    let backend: TranscriptionConfig['backend'] | null;
+    switch (requested) {
+      case 'none':
+        return {};
+      case 'local':
+        if (!localModel) {
+          console.warn('⚠️  TRANSCRIPTION_BACKEND=local requires WHISPER_CPP_MODEL; voice notes will not be transcribed');
+          return {};
+        }
+        backend = 'local';
+        break;
+      case 'http':
+        backend = 'http';
+        break;
+      case 'auto':
+        backend = apiKey || process.env.TRANSCRIPTION_API_URL ? 'http' : localModel ? 'local' : null;
+        break;
+      default:
+        console.warn(`⚠️  Ignoring invalid TRANSCRIPTION_BACKEND: ${requested} (use auto, local, http or none)`);
+        return {};
+    }
+
+    if (!backend) {
+      return {};
+    }
+
+    return {
+      transcription: {
+        backend,
+        ...(process.env.TRANSCRIPTION_LANGUAGE && { language: process.env.TRANSCRIPTION_LANGUAGE }),
+        timeoutMs: parseInt(process.env.TRANSCRIPTION_TIMEOUT_MS || '60000'),
+        maxBytes: parseInt(process.env.TRANSCRIPTION_MAX_BYTES || String(20 * 1024 * 1024)),
+        ...(localModel && {
+          local: {
+            binary: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+            model: localModel,
+            ffmpeg: process.env.FFMPEG_BIN || 'ffmpeg',
+            ...(process.env.WHISPER_CPP_THREADS && { threads: parseInt(process.env.WHISPER_CPP_THREADS) })
+          }
+        }),
+        http: {
+          url: apiUrl,
+          ...(apiKey && { apiKey }),
+          model: process.env.TRANSCRIPTION_MODEL || 'whisper-1'
+        }
+      }
+    };
+  }
+
+  private loadTTSConfig(): { tts?: TTSConfig } {
+    const backend = (process.env.TTS_BACKEND || 'none').toLowerCase();
+    if (backend === 'none') {
+      return {};
+    }
+
+    if (backend !== 'local' && backend !== 'http') {
+      console.warn(`⚠️  Ignoring invalid TTS_BACKEND: ${backend} (use local, http or none)`);
+      return {};
+    }
+
+    const engine = process.env.TTS_ENGINE === 'espeak' ? 'espeak' : 'piper';
+    const apiKey = process.env.TTS_API_KEY || process.env.OPENAI_API_KEY;
+
+    return {
+      tts: {
+        backend,
+        ...(process.env.TTS_VOICE && { voice: process.env.TTS_VOICE }),
+        maxChars: parseInt(process.env.TTS_MAX_CHARS || '1000'),
+        timeoutMs: parseInt(process.env.TTS_TIMEOUT_MS || '60000'),
+        ffmpeg: process.env.FFMPEG_BIN || 'ffmpeg',
+        defaultMode: (process.env.TTS_REPLY_MODE as VoiceReplyMode) || 'auto',
+        ...(backend === 'local' ? {
+          local: {
+            engine,
+            binary: process.env.TTS_BIN || (engine === 'piper' ? 'piper' : 'espeak-ng'),
+            ...(process.env.PIPER_MODEL && { model: process.env.PIPER_MODEL })
+          }
+        } : {
+          http: {
+            url: process.env.TTS_API_URL || 'https://api.openai.com/v1/audio/speech',
+            ...(apiKey && { apiKey }),
+            model: process.env.TTS_MODEL || 'gpt-4o-mini-tts'
+          }
+        })
+      }
+    };
+  }
+
+  /**
+   * Everything needed to construct a provider: its API key and the model,
+   * generation settings and base URL configured for it.
+   */
+  getLLMConfig(provider: LLMProviderType): LLMConfig {
+    const config = this.config;
+    const { model, maxTokens, temperature, baseURL } = config.models[provider];
+    const apiKey = provider === 'local' ? config.local.apiKey : process.env[`${provider.toUpperCase()}_API_KEY`];
+    const endpoint = provider === 'local' ? config.local.baseURL : baseURL;
+
+    return {
+      provider,
+      apiKey: apiKey || '',
+      model,
+      maxTokens,
+      temperature,
+      ...(endpoint && { baseURL: endpoint })
+    };
+  }
+
   updateConfig(updates: Partial<AppConfig>): void {
     if (this._config) {
       this._config = { ...this._config, ...updates };
     }
   }
 
-  validateConfig(selectedProvider?: 'anthropic' | 'openrouter'): { isValid: boolean; errors: string[] } {
+  validateConfig(selectedProvider?: LLMProviderType): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
     try {
@@ -217,6 +540,14 @@ Note: Tool information will be dynamically added based on available tools.`,
         errors.push('OPENROUTER_API_KEY is required for OpenRouter provider');
       }
 
+      if (selectedProvider === 'openai' && !process.env.OPENAI_API_KEY) {
+        errors.push('OPENAI_API_KEY is required for OpenAI provider');
+      }
+
+      if (config.openai && !['auto', 'chat', 'responses'].includes(config.openai.apiMode)) {
+        errors.push('OPENAI_API_MODE must be one of auto, chat or responses');
+      }
+
       if (config.llm.maxTokens && (config.llm.maxTokens <= 0 || config.llm.maxTokens > 4000)) {
         errors.push('LLM max tokens must be between 1 and 4000');
       }
@@ -225,14 +556,121 @@ Note: Tool information will be dynamically added based on available tools.`,
         errors.push('LLM temperature must be between 0 and 2');
       }
 
-      if (config.bot.rateLimit.maxRequests <= 0) {
-        errors.push('Rate limit max requests must be greater than 0');
+      if (config.bot.maxToolSteps < 0) {
+        errors.push('Max tool steps cannot be negative');
+      }
+
+      if (config.bot.maxContextTokens <= 0) {
+        errors.push('Max context tokens must be greater than 0');
+      }
+
+      if (config.bot.streamThrottleMs < 0) {
+        errors.push('Stream throttle interval cannot be negative');
+      }
+
+      if (!['auto', 'memory', 'supabase', 'file'].includes(config.history.store)) {
+        errors.push('HISTORY_STORE must be one of auto, memory, supabase or file');
+      }
+
+      if (config.history.store === 'supabase' && !config.supabase) {
+        errors.push('HISTORY_STORE=supabase requires SUPABASE_URL and SUPABASE_ANON_KEY');
+      }
+
+      const replyModes = ['mention', 'all', 'off'];
+      const historyScopes = ['group', 'member'];
+      if (!replyModes.includes(config.groups.replyMode)) {
+        errors.push('GROUP_REPLY_MODE must be one of mention, all or off');
+      }
+
+      if (!historyScopes.includes(config.groups.historyScope)) {
+        errors.push('GROUP_HISTORY_SCOPE must be group or member');
+      }
+
+      Object.entries(config.groups.policies).forEach(([group, policy]) => {
+        if (policy.replyMode && !replyModes.includes(policy.replyMode)) {
+          errors.push(`GROUP_POLICIES["${group}"].replyMode must be one of mention, all or off`);
+        }
+        if (policy.historyScope && !historyScopes.includes(policy.historyScope)) {
+          errors.push(`GROUP_POLICIES["${group}"].historyScope must be group or member`);
+        }
+      });
+
+      (['user', 'admin', 'group'] as const).forEach(tier => {
+        const limits = config.bot.quota[tier];
+        if (!(limits.maxRequests >= 0) || !(limits.dailyTokens >= 0)) {
+          errors.push(`Quota limits for ${tier} cannot be negative (use 0 for unlimited)`);
+        }
+      });
+
+      if (!(config.whatsapp.maxMediaBytes > 0)) {
+        errors.push('WHATSAPP_MAX_MEDIA_BYTES must be greater than 0');
       }
 
-      if (config.bot.rateLimit.windowMs <= 0) {
+      if (!(config.bot.quota.user.windowMs > 0)) {
         errors.push('Rate limit window must be greater than 0');
       }
 
+      const { fallback } = config;
+      if (!(fallback.retryAttempts >= 0) || !(fallback.retryDelayMs >= 0)) {
+        errors.push('LLM_RETRY_ATTEMPTS and LLM_RETRY_DELAY_MS cannot be negative');
+      }
+
+      if (!(fallback.failureThreshold > 0) || !(fallback.cooldownMs > 0)) {
+        errors.push('LLM_CIRCUIT_FAILURE_THRESHOLD and LLM_CIRCUIT_COOLDOWN_MS must be greater than 0');
+      }
+
+      for (const [provider, modelConfig] of Object.entries(config.models)) {
+        if (provider !== 'local' && modelConfig.baseURL && !/^https?:\/\//.test(modelConfig.baseURL)) {
+          errors.push(`${provider.toUpperCase()}_BASE_URL must be an http(s) URL`);
+        }
+      }
+
+      if (selectedProvider === 'local' || fallback.providers.some(entry => entry.provider === 'local')) {
+        if (!/^https?:\/\//.test(config.local.baseURL)) {
+          errors.push('LOCAL_BASE_URL must be an http(s) URL');
+        }
+        if (!['auto', 'native', 'none'].includes(config.local.toolMode)) {
+          errors.push('LOCAL_TOOL_MODE must be one of auto, native or none');
+        }
+        if (!(config.local.timeoutMs > 0)) {
+          errors.push('LOCAL_TIMEOUT_MS must be greater than 0');
+        }
+      }
+
+      fallback.providers.forEach(entry => {
+        if (entry.provider === 'local') {
+          return;
+        }
+        const key = `${entry.provider.toUpperCase()}_API_KEY`;
+        if (!process.env[key]) {
+          errors.push(`${key} is required for the ${entry.provider} fallback provider`);
+        }
+      });
+
+      if (config.tts) {
+        if (!['auto', 'always', 'off'].includes(config.tts.defaultMode)) {
+          errors.push('TTS_REPLY_MODE must be one of auto, always or off');
+        }
+        if (!(config.tts.maxChars > 0) || !(config.tts.timeoutMs > 0)) {
+          errors.push('TTS_MAX_CHARS and TTS_TIMEOUT_MS must be greater than 0');
+        }
+        if (config.tts.local?.engine === 'piper' && !config.tts.local.model) {
+          errors.push('TTS_ENGINE=piper requires PIPER_MODEL');
+        }
+        if (config.tts.backend === 'http' && !config.tts.http?.apiKey && !process.env.TTS_API_URL) {
+          errors.push('HTTP speech synthesis requires TTS_API_KEY or OPENAI_API_KEY');
+        }
+      }
+
+      if (config.transcription) {
+        if (!(config.transcription.timeoutMs > 0) || !(config.transcription.maxBytes > 0)) {
+          errors.push('TRANSCRIPTION_TIMEOUT_MS and TRANSCRIPTION_MAX_BYTES must be greater than 0');
+        }
+        if (config.transcription.backend === 'http' && !config.transcription.http?.apiKey && !process.env.TRANSCRIPTION_API_URL) {
+          errors.push('HTTP transcription requires TRANSCRIPTION_API_KEY or OPENAI_API_KEY');
+        }
+      }
+
     } catch (error) {
       errors.push(`Configuration loading error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -243,7 +681,7 @@ Note: Tool information will be dynamically added based on available tools.`,
     };
   }
 
-  printConfig(selectedProvider?: 'anthropic' | 'openrouter'): void {
+  printConfig(selectedProvider?: LLMProviderType): void {
     const config = this.config;
     console.log('📋 Current Configuration:');
     
@@ -253,23 +691,49 @@ Note: Tool information will be dynamically added based on available tools.`,
       console.log(`  Model: ${modelConfig.model}`);
       console.log(`  Max Tokens: ${modelConfig.maxTokens}`);
       console.log(`  Temperature: ${modelConfig.temperature}`);
+      const contextWindow = getContextWindow(modelConfig.model);
+      console.log(`  Prompt Budget: ${Math.min(config.bot.maxContextTokens, contextWindow - modelConfig.maxTokens).toLocaleString()} tokens (model window ${contextWindow.toLocaleString()}, capped by BOT_MAX_CONTEXT_TOKENS=${config.bot.maxContextTokens})`);
+      if (config.bot.summaryModel) {
+        console.log(`  Summary Model: ${config.bot.summaryModel}`);
+      }
+      if (modelConfig.baseURL) {
+        console.log(`  Endpoint: ${modelConfig.baseURL}`);
+      }
+      if (selectedProvider === 'local') {
+        console.log(`  Server: ${config.local.baseURL} (tools: ${config.local.toolMode})`);
+      }
     } else {
       console.log(`  Anthropic Model: ${config.models.anthropic.model}`);
       console.log(`  OpenRouter Model: ${config.models.openrouter.model}`);
+      console.log(`  OpenAI Model: ${config.models.openai.model}`);
+      console.log(`  Local Model: ${config.models.local.model}`);
     }
     
+    if (config.fallback.providers.length > 0) {
+      console.log(`  Fallbacks: ${config.fallback.providers.map(entry => entry.model ? `${entry.provider}:${entry.model}` : entry.provider).join(' → ')}`);
+    }
+    console.log(`  Retries: ${config.fallback.retryAttempts} (circuit opens after ${config.fallback.failureThreshold} failures for ${config.fallback.cooldownMs}ms)`);
     console.log(`  WhatsApp Session: ${config.whatsapp.session}`);
     console.log(`  Logging: ${config.bot.enableLogging ? 'Enabled' : 'Disabled'}`);
-    console.log(`  Rate Limit: ${config.bot.rateLimit.maxRequests} requests per ${config.bot.rateLimit.windowMs}ms`);
+    console.log(`  Groups: reply on ${config.groups.replyMode}, ${Object.keys(config.groups.policies).length} group policies`);
+    console.log(`  Admins: ${config.bot.admins.length > 0 ? config.bot.admins.length : 'None (admin commands disabled)'}`);
+    if (config.bot.quota.enabled) {
+      const { user, group } = config.bot.quota;
+      console.log(`  Quota: ${user.maxRequests || '∞'} requests per ${user.windowMs}ms, ${user.dailyTokens || '∞'} tokens/day per user; ${group.dailyTokens || '∞'} tokens/day per group`);
+    } else {
+      console.log('  Quota: Disabled');
+    }
     if (config.supabase) {
       console.log(`  Supabase: Connected (Project: ${config.supabase.projectId})`);
     }
     if (config.openai) {
-      console.log(`  OpenAI: Connected (for embeddings)`);
+      console.log(`  OpenAI: Connected (embeddings${selectedProvider === 'openai' ? `, chat via ${config.openai.apiMode} API` : ''})`);
     }
     console.log(`  🧠 RAG: ${config.features.enableRAG ? 'Enabled' : 'Disabled'}`);
     console.log(`  👁️ Vision: ${config.features.enableVision ? 'Enabled' : 'Disabled'}`);
     console.log(`  📄 PDF: ${config.features.enablePDF ? 'Enabled' : 'Disabled'}`);
+    console.log(`  🎤 Transcription: ${config.transcription ? (config.transcription.backend === 'local' ? 'whisper.cpp' : config.transcription.http?.url) : 'Disabled'}`);
+    console.log(`  🔊 Voice Replies: ${config.tts ? `${config.tts.local?.engine || config.tts.http?.url} (default: ${config.tts.defaultMode})` : 'Disabled'}`);
     console.log(`  🔗 MCP: ${config.features.enableMCP ? 'Enabled' : 'Disabled'}`);
     if (config.features.enableMCP && config.mcp) {
       const enabledServers = config.mcp.servers.filter(s => s.enabled);
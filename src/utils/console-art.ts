@@ -115,6 +115,10 @@ export class ConsoleArt {
         return chalk.bgMagenta.white(' 🧠 ANTHROPIC ');
       case 'openrouter':
         return chalk.bgBlue.white(' 🔄 OPENROUTER ');
+      case 'openai':
+        return chalk.bgWhite.black(' ⚪ OPENAI ');
+      case 'local':
+        return chalk.bgGreen.black(' 🏠 LOCAL ');
       default:
         return chalk.bgGray.white(` 🤖 ${provider.toUpperCase()} `);
     }
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateCost, formatCost, getModelPricing } from './pricing';
+
+test('getModelPricing matches more specific model ids first', () => {
+  assert.deepEqual(getModelPricing('gpt-4o-mini-2024-07-18'), { input: 0.15, output: 0.6 });
+  assert.deepEqual(getModelPricing('openai/gpt-4o'), { input: 2.5, output: 10 });
+  assert.deepEqual(getModelPricing('anthropic/claude-3.5-haiku'), { input: 0.8, output: 4 });
+  assert.equal(getModelPricing('some-local-model'), null);
+  assert.equal(getModelPricing(undefined), null);
+});
+
+test('calculateCost prices input and output tokens separately', () => {
+  const cost = calculateCost('claude-sonnet-4-20250514', { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 });
+  assert.ok(Math.abs(cost! - 0.0105) < 1e-12);
+});
+
+test('calculateCost prices usage without a split at the input rate', () => {
+  const cost = calculateCost('gpt-4o', { inputTokens: 0, outputTokens: 0, totalTokens: 2000 });
+  assert.ok(Math.abs(cost! - 0.005) < 1e-12);
+});
+
+test('calculateCost is null for unknown models or missing usage', () => {
+  assert.equal(calculateCost('mystery-model', { inputTokens: 1, outputTokens: 1, totalTokens: 2 }), null);
+  assert.equal(calculateCost('gpt-4o', undefined), null);
+});
+
+test('formatCost shows more precision for small amounts', () => {
+  assert.equal(formatCost(1.234), '$1.23');
+  assert.equal(formatCost(0.00123), '$0.0012');
+});
@@ -0,0 +1,77 @@
+import { LLMResponse } from '../types';
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices per model, matched by substring against the model id (first
+ * match wins, so more specific ids come first). OpenRouter ids such as
+ * "anthropic/claude-3.5-sonnet" match the same entries as the direct APIs.
+ */
+const MODEL_PRICING: Array<[string, ModelPricing]> = [
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-haiku-4', { input: 1, output: 5 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3.7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3.5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3.5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['gpt-5-nano', { input: 0.05, output: 0.4 }],
+  ['gpt-5-mini', { input: 0.25, output: 2 }],
+  ['gpt-5', { input: 1.25, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['o4-mini', { input: 1.1, output: 4.4 }],
+  ['o3-mini', { input: 1.1, output: 4.4 }],
+  ['o3', { input: 2, output: 8 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['gemini-1.5-pro', { input: 1.25, output: 5 }],
+  ['gemini-1.5-flash', { input: 0.075, output: 0.3 }],
+  ['mistral-large', { input: 2, output: 6 }],
+  ['mistral-small', { input: 0.2, output: 0.6 }],
+  ['llama-3.1-70b', { input: 0.4, output: 0.4 }],
+  ['llama-3.1-8b', { input: 0.05, output: 0.05 }]
+];
+
+export function getModelPricing(model?: string): ModelPricing | null {
+  if (!model) {
+    return null;
+  }
+
+  const id = model.toLowerCase();
+  return MODEL_PRICING.find(([pattern]) => id.includes(pattern))?.[1] ?? null;
+}
+
+/**
+ * Cost in USD of a response, or null when the model has no known price.
+ * Usage without an input/output split is priced at the input rate.
+ */
+export function calculateCost(model: string | undefined, usage: LLMResponse['usage']): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing || !usage) {
+    return null;
+  }
+
+  const split = usage.inputTokens + usage.outputTokens > 0;
+  const inputTokens = split ? usage.inputTokens : usage.totalTokens;
+  const outputTokens = split ? usage.outputTokens : 0;
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+export function formatCost(costUsd: number): string {
+  return costUsd >= 0.01 ? `$${costUsd.toFixed(2)}` : `$${costUsd.toFixed(4)}`;
+}
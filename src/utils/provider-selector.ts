@@ -1,11 +1,11 @@
 import readline from 'readline';
-import { LLMProvider } from '../types';
-import { AnthropicProvider, OpenRouterProvider } from '../providers';
+import { LLMProvider, LLMProviderType } from '../types';
+import { AnthropicProvider, OpenRouterProvider, OpenAIProvider, LocalProvider } from '../providers';
 import { configManager } from './config';
 
 export interface ProviderSelectionResult {
   provider: LLMProvider;
-  selectedType: 'anthropic' | 'openrouter';
+  selectedType: LLMProviderType;
 }
 
 export class ProviderSelector {
@@ -24,11 +24,13 @@ export class ProviderSelector {
     console.log('Available LLM Providers:');
     console.log('1. Anthropic (Claude)');
     console.log('2. OpenRouter (Multiple Models)');
+    console.log('3. OpenAI (GPT, o-series)');
+    console.log('4. Local (Ollama, llama.cpp, vLLM - runs offline)');
     console.log('');
 
-    const choice = await this.askQuestion('Select your preferred LLM provider (1 or 2): ');
+    const choice = await this.askQuestion('Select your preferred LLM provider (1-4): ');
     
-    let selectedType: 'anthropic' | 'openrouter';
+    let selectedType: LLMProviderType;
     let provider: LLMProvider;
 
     switch (choice.trim()) {
@@ -40,6 +42,14 @@ export class ProviderSelector {
         selectedType = 'openrouter';
         provider = await this.setupOpenRouterProvider();
         break;
+      case '3':
+        selectedType = 'openai';
+        provider = await this.setupOpenAIProvider();
+        break;
+      case '4':
+        selectedType = 'local';
+        provider = await this.setupLocalProvider();
+        break;
       default:
         console.log('❌ Invalid choice. Defaulting to Anthropic...');
         selectedType = 'anthropic';
@@ -53,70 +63,68 @@ export class ProviderSelector {
 
   private async setupAnthropicProvider(): Promise<AnthropicProvider> {
     console.log('\n🔧 Setting up Anthropic (Claude) Provider...');
-    
-    const anthropicKey = process.env.ANTHROPIC_API_KEY;
-    
-    if (!anthropicKey) {
-      throw new Error('ANTHROPIC_API_KEY not found in environment variables. Please add it to your .env file.');
-    }
-
+    ProviderSelector.requireApiKey('anthropic');
     console.log('✅ Anthropic API key found in environment');
-    
-    const config = configManager.config;
-    const defaultModel = config.models.anthropic.model;
-    const defaultMaxTokens = config.models.anthropic.maxTokens;
-    const defaultTemperature = config.models.anthropic.temperature;
-    
-    console.log(`📋 Current Anthropic Configuration:`);
-    console.log(`   Model: ${defaultModel}`);
-    console.log(`   Max Tokens: ${defaultMaxTokens}`);
-    console.log(`   Temperature: ${defaultTemperature}`);
-    
-    const useDefault = await this.askQuestion('Use current configuration? (y/n, default: y): ');
-    
-    if (useDefault.trim().toLowerCase() === 'n') {
-      const model = await this.askQuestion(`Enter Claude model (default: ${defaultModel}): `);
-      const selectedModel = model.trim() || defaultModel;
-      console.log(`🔄 Model updated to: ${selectedModel}`);
-    }
-    
+
+    await this.confirmModel('anthropic', 'Anthropic', 'Claude model');
     console.log(`🚀 Using Anthropic with configured settings`);
-    
-    return new AnthropicProvider(anthropicKey);
+
+    return ProviderSelector.createProvider('anthropic') as AnthropicProvider;
   }
 
   private async setupOpenRouterProvider(): Promise<OpenRouterProvider> {
     console.log('\n🔧 Setting up OpenRouter Provider...');
-    
-    const openRouterKey = process.env.OPENROUTER_API_KEY;
-    
-    if (!openRouterKey) {
-      throw new Error('OPENROUTER_API_KEY not found in environment variables. Please add it to your .env file.');
-    }
-
+    ProviderSelector.requireApiKey('openrouter');
     console.log('✅ OpenRouter API key found in environment');
-    
+
+    await this.confirmModel('openrouter', 'OpenRouter');
+    console.log(`🚀 Using OpenRouter with configured settings`);
+
+    return ProviderSelector.createProvider('openrouter') as OpenRouterProvider;
+  }
+
+  private async setupOpenAIProvider(): Promise<OpenAIProvider> {
+    console.log('\n🔧 Setting up OpenAI Provider...');
+    ProviderSelector.requireApiKey('openai');
+    console.log('✅ OpenAI API key found in environment');
+
+    await this.confirmModel('openai', 'OpenAI', 'model', [`API: ${configManager.config.openai?.apiMode || 'auto'}`]);
+    console.log(`🚀 Using OpenAI with configured settings`);
+
+    return ProviderSelector.createProvider('openai') as OpenAIProvider;
+  }
+
+  private async setupLocalProvider(): Promise<LocalProvider> {
+    console.log('\n🔧 Setting up Local Provider...');
+
+    const { local } = configManager.config;
+    await this.confirmModel('local', 'Local', 'model', [`Server: ${local.baseURL}`, `Tool Calling: ${local.toolMode}`]);
+    console.log(`🚀 Using local model server with configured settings`);
+
+    return ProviderSelector.createProvider('local') as LocalProvider;
+  }
+
+  /**
+   * Show the provider's configured settings and let the user pick another
+   * model, which is stored so the provider is created with it.
+   */
+  private async confirmModel(type: LLMProviderType, label: string, modelLabel = 'model', extraLines: string[] = []): Promise<void> {
     const config = configManager.config;
-    const defaultModel = config.models.openrouter.model;
-    const defaultMaxTokens = config.models.openrouter.maxTokens;
-    const defaultTemperature = config.models.openrouter.temperature;
-    
-    console.log(`📋 Current OpenRouter Configuration:`);
-    console.log(`   Model: ${defaultModel}`);
-    console.log(`   Max Tokens: ${defaultMaxTokens}`);
-    console.log(`   Temperature: ${defaultTemperature}`);
-    
+    const { model, maxTokens, temperature } = config.models[type];
+
+    console.log(`📋 Current ${label} Configuration:`);
+    console.log(`   Model: ${model}`);
+    console.log(`   Max Tokens: ${maxTokens}`);
+    console.log(`   Temperature: ${temperature}`);
+    extraLines.forEach(line => console.log(`   ${line}`));
+
     const useDefault = await this.askQuestion('Use current configuration? (y/n, default: y): ');
-    
+
     if (useDefault.trim().toLowerCase() === 'n') {
-      const model = await this.askQuestion(`Enter model (default: ${defaultModel}): `);
-      const selectedModel = model.trim() || defaultModel;
+      const selectedModel = (await this.askQuestion(`Enter ${modelLabel} (default: ${model}): `)).trim() || model;
       console.log(`🔄 Model updated to: ${selectedModel}`);
+      configManager.updateConfig({ models: { ...config.models, [type]: { ...config.models[type], model: selectedModel } } });
     }
-    
-    console.log(`🚀 Using OpenRouter with configured settings`);
-    
-    return new OpenRouterProvider(openRouterKey);
   }
 
   private askQuestion(question: string): Promise<string> {
@@ -127,6 +135,39 @@ export class ProviderSelector {
     });
   }
 
+  /**
+   * Build a provider from its configured key, model and settings without
+   * prompting, e.g. to switch providers at runtime.
+   */
+  static createProvider(type: LLMProviderType): LLMProvider {
+    const llmConfig = configManager.getLLMConfig(type);
+
+    switch (type) {
+      case 'local': {
+        const { baseURL, toolMode, timeoutMs } = configManager.config.local;
+        return new LocalProvider({ ...llmConfig, baseURL, toolMode, timeoutMs });
+      }
+      case 'openai': {
+        const { openai } = configManager.config;
+        ProviderSelector.requireApiKey(type);
+        return new OpenAIProvider({ ...llmConfig, ...(openai && { apiMode: openai.apiMode }) });
+      }
+      case 'anthropic':
+        ProviderSelector.requireApiKey(type);
+        return new AnthropicProvider(llmConfig);
+      case 'openrouter':
+        ProviderSelector.requireApiKey(type);
+        return new OpenRouterProvider(llmConfig);
+    }
+  }
+
+  private static requireApiKey(type: Exclude<LLMProviderType, 'local'>): void {
+    const variable = `${type.toUpperCase()}_API_KEY`;
+    if (!process.env[variable]) {
+      throw new Error(`${variable} not found in environment variables. Please add it to your .env file.`);
+    }
+  }
+
   static async quickSelect(): Promise<ProviderSelectionResult> {
     const selector = new ProviderSelector();
     return await selector.selectProvider();
@@ -0,0 +1,62 @@
+import { Readable } from 'stream';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a text/event-stream body, invoking onEvent for every dispatched event.
+ * Resolves once the stream ends.
+ */
+export async function parseEventStream(stream: Readable, onEvent: (event: ServerSentEvent) => void): Promise<void> {
+  let buffer = '';
+  let current: { event?: string; data: string[]; id?: string } = { data: [] };
+
+  const dispatch = () => {
+    if (current.data.length > 0) {
+      const event: ServerSentEvent = { data: current.data.join('\n') };
+      if (current.event) event.event = current.event;
+      if (current.id) event.id = current.id;
+      onEvent(event);
+    }
+    current = { data: [] };
+  };
+
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) {
+    buffer += chunk;
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (line === '') {
+        dispatch();
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'event') current.event = value;
+      else if (field === 'data') current.data.push(value);
+      else if (field === 'id') current.id = value;
+    }
+  }
+
+  dispatch();
+}
+
+export async function readStream(stream: Readable): Promise<string> {
+  let body = '';
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) {
+    body += chunk;
+  }
+  return body;
+}
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseVCard } from './vcard';
+
+test('parseVCard reads the name and every phone number', () => {
+  const vcard = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    'FN:Jamie Doe',
+    'TEL;type=CELL;waid=15550001111:+1 555-000-1111',
+    'TEL;type=WORK:+1 555-000-2222',
+    'END:VCARD'
+  ].join('\r\n');
+
+  assert.deepEqual(parseVCard(vcard), {
+    name: 'Jamie Doe',
+    phoneNumbers: ['+1 555-000-1111', '+1 555-000-2222'],
+    vcard
+  });
+});
+
+test('parseVCard falls back to the first number, then to Unknown', () => {
+  assert.equal(parseVCard('BEGIN:VCARD\nTEL:+44 20 7946 0000\nEND:VCARD').name, '+44 20 7946 0000');
+  assert.deepEqual(parseVCard('BEGIN:VCARD\nEND:VCARD'), { name: 'Unknown', phoneNumbers: [], vcard: 'BEGIN:VCARD\nEND:VCARD' });
+});
@@ -0,0 +1,20 @@
+import { SharedContact } from '../types';
+
+/**
+ * Read the display name and phone numbers from a shared contact's vCard,
+ * falling back to the first number when the card has no name.
+ */
+export function parseVCard(vcard: string): SharedContact {
+  const lines = vcard.split(/\r?\n/);
+  const field = (name: string) => lines.filter(line => line.toUpperCase().startsWith(name));
+  const value = (line: string) => line.substring(line.indexOf(':') + 1).trim();
+
+  const fullName = field('FN')[0];
+  const phoneNumbers = field('TEL').map(value).filter(Boolean);
+
+  return {
+    name: fullName ? value(fullName) : phoneNumbers[0] || 'Unknown',
+    phoneNumbers,
+    vcard
+  };
+}